@@ -1,45 +1,29 @@
 #!/usr/bin/env node
 import 'source-map-support/register';
 import * as cdk from 'aws-cdk-lib';
-import { DifyOnAwsStack } from '../lib/dify-on-aws-stack';
-import { UsEast1Stack } from '../lib/us-east-1-stack';
-import { EnvironmentProps } from '../lib/environment-props';
-
-export const props: EnvironmentProps = {
-  awsRegion: 'us-west-2',
-  awsAccount: process.env.CDK_DEFAULT_ACCOUNT!,
-  // Set Dify version
-  difyImageTag: '1.1.3',
-  // Set plugin-daemon version to stable release
-  difyPluginDaemonImageTag: '0.0.6-local',
-
-  // uncomment the below options for less expensive configuration:
-  // isRedisMultiAz: false,
-  // useNatInstance: true,
-  // enableAuroraScalesToZero: true,
-  // useFargateSpot: true,
-
-  // Please see EnvironmentProps in lib/environment-props.ts for all the available properties
-};
+import { createDifyStacks } from '../lib/create-stacks';
+import { loadStageConfig } from '../lib/config';
+import { props as defaultProps } from '../config/default';
+import { validateImageArchitecture } from '../lib/dify-images';
 
 const app = new cdk.App();
+const { stage, props } = loadStageConfig((key) => app.node.tryGetContext(key), defaultProps);
 
-let virginia: UsEast1Stack | undefined = undefined;
-if ((props.useCloudFront ?? true) && (props.domainName || props.allowedIPv4Cidrs || props.allowedIPv6Cidrs)) {
-  // add a unique suffix to prevent collision with different Dify instances in the same account.
-  virginia = new UsEast1Stack(app, `DifyOnAwsUsEast1Stack${props.subDomain ? `-${props.subDomain}` : ''}`, {
-    env: { region: 'us-east-1', account: props.awsAccount },
-    crossRegionReferences: true,
-    domainName: props.domainName,
-    allowedIpV4AddressRanges: props.allowedIPv4Cidrs,
-    allowedIpV6AddressRanges: props.allowedIPv6Cidrs,
-  });
+// The check inspects images in Docker Hub over the network. Images copied to ECR are checked by copy-to-ecr script.
+// Pass `-c skipImageArchitectureCheck=true` to skip it, e.g. when synthesizing without network access.
+const skipImageArchitectureCheck = String(app.node.tryGetContext('skipImageArchitectureCheck')) == 'true';
+if (!props.customEcrRepositoryName && !skipImageArchitectureCheck) {
+  validateImageArchitecture(props);
 }
 
-new DifyOnAwsStack(app, 'DifyOnAwsStack', {
-  env: { region: props.awsRegion, account: props.awsAccount },
-  crossRegionReferences: true,
-  ...props,
-  cloudFrontCertificate: virginia?.certificate,
-  cloudFrontWebAclArn: virginia?.webAclArn,
+// stacks of the default configuration keep the names without a stage suffix.
+const stageSuffix = stage ? `-${stage}` : '';
+
+// add a unique suffix to us-east-1 stacks to prevent collision with different Dify instances in the same account.
+const usEast1Suffix = `${stageSuffix}${props.subDomain ? `-${props.subDomain}` : ''}`;
+
+createDifyStacks(app, props, {
+  main: `DifyOnAwsStack${stageSuffix}`,
+  usEast1: `DifyOnAwsUsEast1Stack${usEast1Suffix}`,
+  usEast1Monitoring: `DifyOnAwsUsEast1MonitoringStack${usEast1Suffix}`,
 });
@@ -0,0 +1,23 @@
+import { EnvironmentProps } from '../lib/environment-props';
+
+/**
+ * The configuration used when no stage is given.
+ * To deploy multiple stages, add config/<stage>.yaml (or .yml, .json) and pass `-c stage=<stage>`.
+ */
+export const props: EnvironmentProps = {
+  awsRegion: 'us-west-2',
+  awsAccount: process.env.CDK_DEFAULT_ACCOUNT!,
+  // Set Dify version
+  difyImageTag: '1.1.3',
+  // Set plugin-daemon version to stable release
+  difyPluginDaemonImageTag: '0.0.6-local',
+
+  // uncomment the below options for less expensive configuration:
+  // isRedisMultiAz: false,
+  // useNatInstance: true,
+  // enableAuroraScalesToZero: true,
+  // useFargateSpot: true,
+  // cpuArchitecture: 'ARM64',
+
+  // Please see EnvironmentProps in lib/environment-props.ts for all the available properties
+};
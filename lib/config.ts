@@ -0,0 +1,108 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { load } from 'js-yaml';
+import { EnvironmentProps } from './environment-props';
+import { assertValidEnvironmentProps } from './environment-validation';
+
+const defaultConfigDirectory = join(__dirname, '..', 'config');
+const configExtensions = ['.yaml', '.yml', '.json'];
+
+export interface StageConfig {
+  /**
+   * The stage name given by `-c stage=<stage>`.
+   * @default undefined for the default configuration
+   */
+  stage?: string;
+
+  props: EnvironmentProps;
+}
+
+export interface LoadStageConfigOptions {
+  /**
+   * The directory to look for <stage>.yaml, <stage>.yml and <stage>.json.
+   * @default the config directory of this project
+   */
+  configDirectory?: string;
+}
+
+/**
+ * Loads the configuration for the stage given by `stage` context.
+ * A stage is configured either in config/<stage>.yaml (or .yml, .json) or in `stages.<stage>` context of cdk.json.
+ * If no stage is given, defaultProps is used.
+ * The configuration is validated before returned, so that all the problems are reported before creating any construct.
+ *
+ * @param getContext returns a CDK context value, e.g. `(key) => app.node.tryGetContext(key)`.
+ */
+export const loadStageConfig = (
+  getContext: (key: string) => unknown,
+  defaultProps: EnvironmentProps,
+  options: LoadStageConfigOptions = {},
+): StageConfig => {
+  const { configDirectory = defaultConfigDirectory } = options;
+  const stage = getContext('stage');
+  if (stage == null) {
+    assertValidEnvironmentProps(defaultProps, { strict: true });
+    return { props: defaultProps };
+  }
+  if (typeof stage != 'string' || !/^[a-zA-Z0-9-]+$/.test(stage)) {
+    throw new Error(`stage must consist of alphanumeric characters and hyphens, but got "${stage}".`);
+  }
+
+  const stages = getContext('stages');
+  const fromContext =
+    typeof stages == 'object' && stages != null ? (stages as Record<string, unknown>)[stage] : undefined;
+  const files = configExtensions.map((ext) => join(configDirectory, `${stage}${ext}`)).filter((f) => existsSync(f));
+  if (files.length + (fromContext ? 1 : 0) > 1) {
+    const sources = [...files, ...(fromContext ? [`stages.${stage} context`] : [])];
+    throw new Error(`Configuration for stage ${stage} is found in multiple sources: ${sources.join(', ')}`);
+  }
+
+  let config: unknown = fromContext;
+  if (files.length == 1) {
+    // JSON is a subset of YAML
+    config = load(readFileSync(files[0], 'utf8'), { filename: files[0] });
+  }
+  if (config == null) {
+    throw new Error(
+      `No configuration found for stage ${stage}. Create config/${stage}.yaml or set stages.${stage} context in cdk.json.`,
+    );
+  }
+  if (typeof config != 'object' || Array.isArray(config)) {
+    throw new Error(`Configuration for stage ${stage} must be an object.`);
+  }
+
+  const props = {
+    awsAccount: process.env.CDK_DEFAULT_ACCOUNT!,
+    ...(config as Partial<EnvironmentProps>),
+  } as EnvironmentProps;
+  assertValidEnvironmentProps(props, { strict: true });
+  return { stage, props };
+};
+
+/**
+ * Reads CDK context outside of CDK apps, e.g. in scripts.
+ * It merges the context in cdk.json, cdk.context.json and `-c key=value` (or `--context key=value`) command line arguments.
+ */
+export const readCdkContext = (argv: string[] = process.argv.slice(2)): Record<string, unknown> => {
+  const rootDirectory = join(__dirname, '..');
+  const readJson = (name: string): Record<string, unknown> => {
+    const path = join(rootDirectory, name);
+    return existsSync(path) ? JSON.parse(readFileSync(path, 'utf8')) : {};
+  };
+
+  const context: Record<string, unknown> = {
+    ...(readJson('cdk.json').context as Record<string, unknown> | undefined),
+    ...readJson('cdk.context.json'),
+  };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] != '-c' && argv[i] != '--context') {
+      continue;
+    }
+    const [key, ...value] = (argv[++i] ?? '').split('=');
+    if (!key || value.length == 0) {
+      throw new Error(`Context must be in the form of key=value, but got "${argv[i]}".`);
+    }
+    context[key] = value.join('=');
+  }
+  return context;
+};
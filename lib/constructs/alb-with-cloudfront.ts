@@ -2,6 +2,7 @@ import { CfnResource, Duration, Names, Stack } from 'aws-cdk-lib';
 import { ICertificate } from 'aws-cdk-lib/aws-certificatemanager';
 import {
   AllowedMethods,
+  BehaviorOptions,
   CachePolicy,
   Distribution,
   OriginProtocolPolicy,
@@ -17,21 +18,39 @@ import {
   ApplicationProtocol,
   ApplicationTargetGroup,
   ListenerAction,
-  ListenerCondition,
 } from 'aws-cdk-lib/aws-elasticloadbalancingv2';
 import { ARecord, IHostedZone, RecordTarget } from 'aws-cdk-lib/aws-route53';
 import { CloudFrontTarget } from 'aws-cdk-lib/aws-route53-targets';
 import { IBucket } from 'aws-cdk-lib/aws-s3';
 import { Construct } from 'constructs';
-import { IAlb } from './alb';
+import {
+  AlbRoute,
+  DifyEndpointNames,
+  IAlb,
+  getEndpointDomainNames,
+  getEndpointSubDomains,
+  getListenerRules,
+} from './alb';
+import { EnvironmentProps } from '../environment-props';
 import { AwsCustomResource, PhysicalResourceId } from 'aws-cdk-lib/custom-resources';
 import { PolicyStatement } from 'aws-cdk-lib/aws-iam';
 
+// Next.js build outputs and the public assets of Dify web. Files under /_next/static have content hashes in their names.
+const staticPathPatterns = ['/_next/static/*', '/logo/*', '/favicon.ico'];
+
+// Dify api paths. Responses depend on the user and some of them are streamed with server-sent events.
+const apiPathPatterns = ['/console/api/*', '/api/*', '/v1/*', '/files/*'];
+
 export interface AlbProps {
   vpc: IVpc;
 
   subDomain: string;
 
+  /**
+   * @default all the endpoints use subDomain.
+   */
+  hostnames?: EnvironmentProps['hostnames'];
+
   /**
    * @default custom domain and TLS is not configured.
    */
@@ -42,14 +61,33 @@ export interface AlbProps {
   cloudFrontCertificate?: ICertificate;
 
   cloudFrontWebAclArn?: string;
+
+  /**
+   * @default 60 seconds
+   */
+  idleTimeoutSeconds?: number;
+
+  /**
+   * @default 30 seconds
+   */
+  originReadTimeoutSeconds?: number;
+
+  /**
+   * @default 5 seconds
+   */
+  originKeepaliveTimeoutSeconds?: number;
 }
 
 export class AlbWithCloudFront extends Construct implements IAlb {
   public url: string;
+  public urls: DifyEndpointNames;
+  public readonly loadBalancer: ApplicationLoadBalancer;
+  public readonly distribution: Distribution;
 
   private listenerPriority = 1;
   private listener: ApplicationListener;
   private vpc: IVpc;
+  private domainNames?: DifyEndpointNames;
   private cloudFrontPrefixListCustomResource: AwsCustomResource | undefined;
 
   constructor(scope: Construct, id: string, props: AlbProps) {
@@ -57,11 +95,14 @@ export class AlbWithCloudFront extends Construct implements IAlb {
 
     const { vpc, subDomain, accessLogBucket } = props;
     const protocol = ApplicationProtocol.HTTP;
+    const subDomains = getEndpointSubDomains(subDomain, props.hostnames);
+    const domainNames = props.hostedZone ? getEndpointDomainNames(subDomains, props.hostedZone.zoneName) : undefined;
 
     const alb = new ApplicationLoadBalancer(this, 'Resource', {
       vpc,
       vpcSubnets: vpc.selectSubnets({ subnets: vpc.privateSubnets }),
       internetFacing: false,
+      idleTimeout: props.idleTimeoutSeconds ? Duration.seconds(props.idleTimeoutSeconds) : undefined,
     });
     alb.logAccessLogs(accessLogBucket, 'dify-alb');
     this.url = `${protocol.toLowerCase()}://${alb.loadBalancerDnsName}`;
@@ -73,27 +114,62 @@ export class AlbWithCloudFront extends Construct implements IAlb {
     });
     listener.connections.allowDefaultPortFrom(Peer.prefixList(this.getCloudFrontManagedPrefixListId()));
 
+    const origin = new LoadBalancerV2Origin(alb, { protocolPolicy: OriginProtocolPolicy.HTTP_ONLY });
+    const staticCachePolicy = new CachePolicy(this, 'StaticCachePolicy', {
+      comment: 'Dify static assets',
+      // cache the assets even if the origin returns max-age=0 for the public files.
+      minTtl: Duration.days(1),
+      defaultTtl: Duration.days(365),
+      maxTtl: Duration.days(365),
+      enableAcceptEncodingGzip: true,
+      enableAcceptEncodingBrotli: true,
+    });
+    const additionalBehaviors: Record<string, BehaviorOptions> = {};
+    for (const pathPattern of staticPathPatterns) {
+      additionalBehaviors[pathPattern] = {
+        origin,
+        viewerProtocolPolicy: ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
+        compress: true,
+        cachePolicy: staticCachePolicy,
+        allowedMethods: AllowedMethods.ALLOW_GET_HEAD,
+        // the Host header is required by the host-based listener rules. It is not a part of the cache key.
+        originRequestPolicy: OriginRequestPolicy.ALL_VIEWER,
+      };
+    }
+    for (const pathPattern of apiPathPatterns) {
+      additionalBehaviors[pathPattern] = {
+        origin,
+        viewerProtocolPolicy: ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
+        cachePolicy: CachePolicy.CACHING_DISABLED,
+        allowedMethods: AllowedMethods.ALLOW_ALL,
+        originRequestPolicy: OriginRequestPolicy.ALL_VIEWER,
+      };
+    }
+
     let distribution = new Distribution(this, 'Distribution', {
       comment: `Dify distribution (${Stack.of(this).stackName} - ${Stack.of(this).region})`,
       ...(props.hostedZone
         ? {
-            domainNames: [`${subDomain}.${props.hostedZone.zoneName}`],
+            // the certificate in us-east-1 covers all the subdomains with a wildcard.
+            domainNames: [...new Set(Object.values(domainNames!))],
             certificate: props.cloudFrontCertificate,
           }
         : {}),
       webAclId: props.cloudFrontWebAclArn,
       defaultBehavior: {
-        origin: new LoadBalancerV2Origin(alb, { protocolPolicy: OriginProtocolPolicy.HTTP_ONLY }),
+        origin,
         viewerProtocolPolicy: ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
         compress: true,
         cachePolicy: CachePolicy.USE_ORIGIN_CACHE_CONTROL_HEADERS_QUERY_STRINGS,
         allowedMethods: AllowedMethods.ALLOW_ALL,
         originRequestPolicy: OriginRequestPolicy.ALL_VIEWER,
       },
+      additionalBehaviors,
       logBucket: accessLogBucket,
       logFilePrefix: 'dify-cloudfront/',
     });
     this.url = `https://${distribution.domainName}`;
+    this.urls = { console: this.url, apps: this.url, serviceApi: this.url };
 
     const vpcOriginId = 'VpcOriginV2';
     // https://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-resource-cloudfront-vpcorigin.html
@@ -115,6 +191,8 @@ export class AlbWithCloudFront extends Construct implements IAlb {
       // https://docs.aws.amazon.com/AWSCloudFormation/latest/UserGuide/aws-properties-cloudfront-distribution-vpcoriginconfig.html
       VpcOriginConfig: {
         VpcOriginId: vpcOrigin.getAtt('Id'),
+        OriginReadTimeout: props.originReadTimeoutSeconds,
+        OriginKeepaliveTimeout: props.originKeepaliveTimeoutSeconds,
       },
     });
     (distribution.node.defaultChild as CfnResource).addPropertyDeletionOverride(
@@ -124,21 +202,44 @@ export class AlbWithCloudFront extends Construct implements IAlb {
       'DistributionConfig.DefaultCacheBehavior.TargetOriginId',
       vpcOriginId,
     );
+    // all the behaviors share the origin, so there is only Origins.0 to replace.
+    Object.keys(additionalBehaviors).forEach((_, i) => {
+      (distribution.node.defaultChild as CfnResource).addPropertyOverride(
+        `DistributionConfig.CacheBehaviors.${i}.TargetOriginId`,
+        vpcOriginId,
+      );
+    });
 
     if (props.hostedZone) {
-      new ARecord(this, 'AliasRecord', {
-        zone: props.hostedZone,
-        recordName: subDomain,
-        target: RecordTarget.fromAlias(new CloudFrontTarget(distribution)),
-      });
-      this.url = `https://${subDomain}.${props.hostedZone.zoneName}`;
+      for (const name of new Set(Object.values(subDomains))) {
+        new ARecord(this, name == subDomains.console ? 'AliasRecord' : `AliasRecord-${name}`, {
+          zone: props.hostedZone,
+          recordName: name,
+          target: RecordTarget.fromAlias(new CloudFrontTarget(distribution)),
+        });
+      }
+      this.urls = {
+        console: `https://${domainNames!.console}`,
+        apps: `https://${domainNames!.apps}`,
+        serviceApi: `https://${domainNames!.serviceApi}`,
+      };
+      this.url = this.urls.console;
     }
 
     this.vpc = vpc;
+    this.domainNames = domainNames;
     this.listener = listener;
+    this.loadBalancer = alb;
+    this.distribution = distribution;
   }
 
-  public addEcsService(id: string, ecsService: FargateService, port: number, healthCheckPath: string, paths: string[]) {
+  public addEcsService(
+    id: string,
+    ecsService: FargateService,
+    port: number,
+    healthCheckPath: string,
+    routes: AlbRoute[],
+  ): ApplicationTargetGroup {
     // we need different target group ids for different albs because a single target group can be attached to only one alb.
     const group = new ApplicationTargetGroup(this, `${id}TargetGroupInternal`, {
       vpc: this.vpc,
@@ -154,16 +255,15 @@ export class AlbWithCloudFront extends Construct implements IAlb {
         unhealthyThresholdCount: 6,
       },
     });
-    // a condition only accepts an array with up to 5 elements
-    // https://docs.aws.amazon.com/elasticloadbalancing/latest/application/load-balancer-limits.html
-    for (let i = 0; i < Math.floor((paths.length + 4) / 5); i++) {
-      const slice = paths.slice(i * 5, (i + 1) * 5);
+    // CloudFront forwards the Host header to the origin with ALL_VIEWER origin request policy.
+    getListenerRules(routes, this.domainNames).forEach(({ conditions }, i) => {
       this.listener.addTargetGroups(`${id}${i}`, {
         targetGroups: [group],
-        conditions: [ListenerCondition.pathPatterns(slice)],
+        conditions,
         priority: this.listenerPriority++,
       });
-    }
+    });
+    return group;
   }
 
   getCloudFrontManagedPrefixListId() {
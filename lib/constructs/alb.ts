@@ -1,5 +1,6 @@
-import { Duration } from 'aws-cdk-lib';
+import { Duration, SecretValue } from 'aws-cdk-lib';
 import { Certificate, CertificateValidation } from 'aws-cdk-lib/aws-certificatemanager';
+import { Distribution } from 'aws-cdk-lib/aws-cloudfront';
 import { IVpc, Peer } from 'aws-cdk-lib/aws-ec2';
 import { FargateService } from 'aws-cdk-lib/aws-ecs';
 import {
@@ -13,7 +14,11 @@ import {
 import { ARecord, IHostedZone, RecordTarget } from 'aws-cdk-lib/aws-route53';
 import { LoadBalancerTarget } from 'aws-cdk-lib/aws-route53-targets';
 import { IBucket } from 'aws-cdk-lib/aws-s3';
+import { CfnWebACLAssociation } from 'aws-cdk-lib/aws-wafv2';
+import { UserPool, UserPoolClient, UserPoolDomain } from 'aws-cdk-lib/aws-cognito';
+import { AuthenticateCognitoAction } from 'aws-cdk-lib/aws-elasticloadbalancingv2-actions';
 import { Construct } from 'constructs';
+import { EnvironmentProps } from '../environment-props';
 
 export interface AlbProps {
   vpc: IVpc;
@@ -22,6 +27,11 @@ export interface AlbProps {
 
   subDomain: string;
 
+  /**
+   * @default all the endpoints use subDomain.
+   */
+  hostnames?: EnvironmentProps['hostnames'];
+
   /**
    * @default custom domain and TLS is not configured.
    */
@@ -34,19 +44,156 @@ export interface AlbProps {
    * @default false
    */
   internal?: boolean;
+
+  /**
+   * If set, users are authenticated on the endpoints except the public ones. It requires hostedZone for HTTPS.
+   * @default users are not authenticated.
+   */
+  authentication?: EnvironmentProps['albAuthentication'];
+
+  /**
+   * The ARN of a regional web ACL associated with the alb.
+   * @default no web ACL is associated.
+   */
+  webAclArn?: string;
+
+  /**
+   * @default 60 seconds
+   */
+  idleTimeoutSeconds?: number;
+}
+
+/**
+ * The endpoints Dify serves, which can have different hostnames.
+ */
+export type DifyEndpoint = 'console' | 'apps' | 'serviceApi';
+
+export type DifyEndpointNames = { [E in DifyEndpoint]: string };
+
+export interface AlbRoute {
+  paths: string[];
+  /**
+   * The endpoints whose hostnames the paths are routed on. It is ignored when all the endpoints share a hostname.
+   */
+  endpoints: DifyEndpoint[];
 }
 
 export interface IAlb {
+  /**
+   * The URL of the console.
+   */
   url: string;
-  addEcsService(id: string, ecsService: FargateService, port: number, healthCheckPath: string, paths: string[]): void;
+  /**
+   * The URL of each endpoint. All of them are the same as {@link url} unless separate hostnames are configured.
+   */
+  urls: DifyEndpointNames;
+  loadBalancer: ApplicationLoadBalancer;
+  /**
+   * The CloudFront distribution in front of the ALB, if any.
+   */
+  distribution?: Distribution;
+  addEcsService(
+    id: string,
+    ecsService: FargateService,
+    port: number,
+    healthCheckPath: string,
+    routes: AlbRoute[],
+  ): ApplicationTargetGroup;
 }
 
+/**
+ * Returns the subdomain of each endpoint. Endpoints without a hostname use subDomain.
+ */
+export const getEndpointSubDomains = (
+  subDomain: string,
+  hostnames: EnvironmentProps['hostnames'] = {},
+): DifyEndpointNames => ({
+  console: hostnames.console ?? subDomain,
+  apps: hostnames.apps ?? subDomain,
+  serviceApi: hostnames.serviceApi ?? subDomain,
+});
+
+/**
+ * Returns the fully qualified domain name of each endpoint.
+ */
+export const getEndpointDomainNames = (subDomains: DifyEndpointNames, zoneName: string): DifyEndpointNames => ({
+  console: `${subDomains.console}.${zoneName}`,
+  apps: `${subDomains.apps}.${zoneName}`,
+  serviceApi: `${subDomains.serviceApi}.${zoneName}`,
+});
+
+/**
+ * Returns the conditions of the listener rules for the routes, and whether each rule authenticates users.
+ * Paths routed on the same hostnames are merged into rules with up to 5 condition values.
+ * @param domainNames the domain name of each endpoint. If undefined, rules do not have host header conditions.
+ * @param authenticatedEndpoints a rule authenticates users if any of these endpoints is served on its hostname.
+ */
+export const getListenerRules = (
+  routes: AlbRoute[],
+  domainNames?: DifyEndpointNames,
+  authenticatedEndpoints: DifyEndpoint[] = [],
+) => {
+  const separate = domainNames != null && new Set(Object.values(domainNames)).size > 1;
+  const authenticates = (endpoints: DifyEndpoint[]) => endpoints.some((e) => authenticatedEndpoints.includes(e));
+  const groups = new Map<string, { hosts: string[]; authenticate: boolean; paths: string[] }>();
+  const addPaths = (hosts: string[], authenticate: boolean, paths: string[]) => {
+    const key = `${authenticate}:${hosts.join(',')}`;
+    if (!groups.has(key)) {
+      groups.set(key, { hosts, authenticate, paths: [] });
+    }
+    groups.get(key)!.paths.push(...paths);
+  };
+
+  for (const { paths, endpoints } of routes) {
+    if (!separate) {
+      addPaths([], authenticates(endpoints), paths);
+      continue;
+    }
+    const endpointsByHost = new Map<string, DifyEndpoint[]>();
+    for (const endpoint of endpoints) {
+      const host = domainNames[endpoint];
+      endpointsByHost.set(host, [...(endpointsByHost.get(host) ?? []), endpoint]);
+    }
+    for (const authenticate of [true, false]) {
+      const hosts = [...endpointsByHost.entries()]
+        .filter(([, hostEndpoints]) => authenticates(hostEndpoints) == authenticate)
+        .map(([host]) => host)
+        .sort();
+      if (hosts.length > 0) {
+        addPaths(hosts, authenticate, paths);
+      }
+    }
+  }
+
+  const rules: { conditions: ListenerCondition[]; authenticate: boolean }[] = [];
+  for (const { hosts, authenticate, paths } of groups.values()) {
+    // a rule only accepts up to 5 condition values in total
+    // https://docs.aws.amazon.com/elasticloadbalancing/latest/application/load-balancer-limits.html
+    const size = 5 - hosts.length;
+    for (let i = 0; i < paths.length; i += size) {
+      rules.push({
+        conditions: [
+          ListenerCondition.pathPatterns(paths.slice(i, i + size)),
+          ...(hosts.length > 0 ? [ListenerCondition.hostHeaders(hosts)] : []),
+        ],
+        authenticate,
+      });
+    }
+  }
+  return rules;
+};
+
 export class Alb extends Construct implements IAlb {
   public url: string;
+  public urls: DifyEndpointNames;
+  public readonly loadBalancer: ApplicationLoadBalancer;
 
   private listenerPriority = 1;
   private listener: ApplicationListener;
   private vpc: IVpc;
+  private domainNames?: DifyEndpointNames;
+  private authenticatedEndpoints: DifyEndpoint[] = [];
+  private authenticateAction?: (next: ListenerAction) => ListenerAction;
 
   constructor(scope: Construct, id: string, props: AlbProps) {
     super(scope, id);
@@ -60,9 +207,13 @@ export class Alb extends Construct implements IAlb {
       internal = false,
     } = props;
     const protocol = props.hostedZone ? ApplicationProtocol.HTTPS : ApplicationProtocol.HTTP;
+    const subDomains = getEndpointSubDomains(subDomain, props.hostnames);
+    const domainNames = props.hostedZone ? getEndpointDomainNames(subDomains, props.hostedZone.zoneName) : undefined;
+    const alternativeNames = [...new Set(Object.values(domainNames ?? {}))].filter((n) => n != domainNames?.console);
     const certificate = props.hostedZone
       ? new Certificate(this, 'Certificate', {
-          domainName: `${subDomain}.${props.hostedZone.zoneName}`,
+          domainName: domainNames!.console,
+          subjectAlternativeNames: alternativeNames.length > 0 ? alternativeNames : undefined,
           validation: CertificateValidation.fromDns(props.hostedZone),
         })
       : undefined;
@@ -73,9 +224,11 @@ export class Alb extends Construct implements IAlb {
         subnets: internal ? vpc.privateSubnets.concat(vpc.isolatedSubnets) : vpc.publicSubnets,
       }),
       internetFacing: !internal,
+      idleTimeout: props.idleTimeoutSeconds ? Duration.seconds(props.idleTimeoutSeconds) : undefined,
     });
     alb.logAccessLogs(accessLogBucket, 'dify-alb');
     this.url = `${protocol.toLowerCase()}://${alb.loadBalancerDnsName}`;
+    this.urls = { console: this.url, apps: this.url, serviceApi: this.url };
 
     const listener = alb.addListener('Listener', {
       protocol,
@@ -87,19 +240,45 @@ export class Alb extends Construct implements IAlb {
     allowedIPv6Cidrs.forEach((cidr) => listener.connections.allowDefaultPortFrom(Peer.ipv6(cidr)));
 
     if (props.hostedZone) {
-      new ARecord(this, 'AliasRecord', {
-        zone: props.hostedZone,
-        recordName: subDomain,
-        target: RecordTarget.fromAlias(new LoadBalancerTarget(alb)),
+      for (const name of new Set(Object.values(subDomains))) {
+        new ARecord(this, name == subDomains.console ? 'AliasRecord' : `AliasRecord-${name}`, {
+          zone: props.hostedZone,
+          recordName: name,
+          target: RecordTarget.fromAlias(new LoadBalancerTarget(alb)),
+        });
+      }
+      this.urls = {
+        console: `${protocol.toLowerCase()}://${domainNames!.console}`,
+        apps: `${protocol.toLowerCase()}://${domainNames!.apps}`,
+        serviceApi: `${protocol.toLowerCase()}://${domainNames!.serviceApi}`,
+      };
+      this.url = this.urls.console;
+    }
+
+    if (props.authentication) {
+      this.configureAuthentication(props.authentication, subDomains);
+    }
+
+    if (props.webAclArn) {
+      new CfnWebACLAssociation(this, 'WebAclAssociation', {
+        resourceArn: alb.loadBalancerArn,
+        webAclArn: props.webAclArn,
       });
-      this.url = `${protocol.toLowerCase()}://${subDomain}.${props.hostedZone.zoneName}`;
     }
 
     this.vpc = vpc;
+    this.domainNames = domainNames;
     this.listener = listener;
+    this.loadBalancer = alb;
   }
 
-  public addEcsService(id: string, ecsService: FargateService, port: number, healthCheckPath: string, paths: string[]) {
+  public addEcsService(
+    id: string,
+    ecsService: FargateService,
+    port: number,
+    healthCheckPath: string,
+    routes: AlbRoute[],
+  ): ApplicationTargetGroup {
     const group = new ApplicationTargetGroup(this, `${id}TargetGroup`, {
       vpc: this.vpc,
       targets: [ecsService],
@@ -114,15 +293,55 @@ export class Alb extends Construct implements IAlb {
         unhealthyThresholdCount: 10,
       },
     });
-    // a condition only accepts an array with up to 5 elements
-    // https://docs.aws.amazon.com/elasticloadbalancing/latest/application/load-balancer-limits.html
-    for (let i = 0; i < Math.floor((paths.length + 4) / 5); i++) {
-      const slice = paths.slice(i * 5, (i + 1) * 5);
-      this.listener.addTargetGroups(`${id}${i}`, {
-        targetGroups: [group],
-        conditions: [ListenerCondition.pathPatterns(slice)],
-        priority: this.listenerPriority++,
-      });
+    getListenerRules(routes, this.domainNames, this.authenticatedEndpoints).forEach(
+      ({ conditions, authenticate }, i) => {
+        if (authenticate) {
+          this.listener.addAction(`${id}${i}`, {
+            action: this.authenticateAction!(ListenerAction.forward([group])),
+            conditions,
+            priority: this.listenerPriority++,
+          });
+        } else {
+          this.listener.addTargetGroups(`${id}${i}`, {
+            targetGroups: [group],
+            conditions,
+            priority: this.listenerPriority++,
+          });
+        }
+      },
+    );
+    return group;
+  }
+
+  private configureAuthentication(
+    authentication: NonNullable<AlbProps['authentication']>,
+    subDomains: DifyEndpointNames,
+  ) {
+    const { oidc, cognito } = authentication;
+    const sessionTimeout = Duration.seconds(authentication.sessionTimeoutSeconds ?? 604800);
+    // the web apps share pages with the console, so they can be public only on their own hostname.
+    const publicEndpoints: DifyEndpoint[] =
+      authentication.publicEndpoints ??
+      (subDomains.apps != subDomains.console ? ['apps', 'serviceApi'] : ['serviceApi']);
+    this.authenticatedEndpoints = (['console', 'apps', 'serviceApi'] as const).filter(
+      (endpoint) => !publicEndpoints.includes(endpoint),
+    );
+
+    if (oidc) {
+      const { clientSecretName, ...options } = oidc;
+      this.authenticateAction = (next) =>
+        ListenerAction.authenticateOidc({
+          ...options,
+          clientSecret: SecretValue.secretsManager(clientSecretName),
+          sessionTimeout,
+          next,
+        });
+    } else if (cognito) {
+      const userPool = UserPool.fromUserPoolArn(this, 'UserPool', cognito.userPoolArn);
+      const userPoolClient = UserPoolClient.fromUserPoolClientId(this, 'UserPoolClient', cognito.userPoolClientId);
+      const userPoolDomain = UserPoolDomain.fromDomainName(this, 'UserPoolDomain', cognito.userPoolDomainPrefix);
+      this.authenticateAction = (next) =>
+        new AuthenticateCognitoAction({ userPool, userPoolClient, userPoolDomain, sessionTimeout, next });
     }
   }
 }
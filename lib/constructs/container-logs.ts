@@ -0,0 +1,92 @@
+import { Construct } from 'constructs';
+import { RemovalPolicy, Stack, aws_ecs as ecs } from 'aws-cdk-lib';
+import { FilterPattern, LogGroup, RetentionDays } from 'aws-cdk-lib/aws-logs';
+import { FirehoseDestination } from 'aws-cdk-lib/aws-logs-destinations';
+import { DeliveryStream, S3Bucket } from 'aws-cdk-lib/aws-kinesisfirehose';
+import { IKey } from 'aws-cdk-lib/aws-kms';
+import { IBucket } from 'aws-cdk-lib/aws-s3';
+
+export interface ContainerLogsProps {
+  /**
+   * @default RetentionDays.INFINITE
+   */
+  retention?: RetentionDays;
+
+  /**
+   * @default log groups are encrypted with a key managed by CloudWatch Logs.
+   */
+  encryptionKey?: IKey;
+
+  /**
+   * If set, all the logs are shipped to the bucket through a Kinesis Data Firehose stream.
+   * @default logs are not shipped.
+   */
+  archiveBucket?: IBucket;
+
+  /**
+   * The prefix of S3 objects in {@link archiveBucket}.
+   * @default 'dify-logs/'
+   */
+  archivePrefix?: string;
+
+  /**
+   * @default RemovalPolicy.DESTROY
+   */
+  removalPolicy?: RemovalPolicy;
+}
+
+/**
+ * CloudWatch Logs log groups for Dify containers. A log group is created for each container name.
+ */
+export class ContainerLogs extends Construct {
+  private readonly props: ContainerLogsProps;
+  private readonly logGroups: { [name: string]: LogGroup } = {};
+  private readonly deliveryStream?: DeliveryStream;
+
+  constructor(scope: Construct, id: string, props: ContainerLogsProps) {
+    super(scope, id);
+
+    this.props = props;
+
+    if (props.archiveBucket) {
+      const prefix = props.archivePrefix ?? 'dify-logs/';
+      this.deliveryStream = new DeliveryStream(this, 'ArchiveStream', {
+        destination: new S3Bucket(props.archiveBucket, {
+          // CloudWatch Logs sends records already compressed with gzip.
+          dataOutputPrefix: `${prefix}!{timestamp:yyyy/MM/dd}/`,
+          errorOutputPrefix: `${prefix}errors/!{firehose:error-output-type}/!{timestamp:yyyy/MM/dd}/`,
+          fileExtension: '.gz',
+        }),
+      });
+    }
+  }
+
+  /**
+   * Returns a log driver that writes to the log group for the container name, e.g. api or worker.
+   */
+  public logDriver(name: string) {
+    return ecs.LogDriver.awsLogs({
+      streamPrefix: 'log',
+      logGroup: this.getLogGroup(name),
+    });
+  }
+
+  private getLogGroup(name: string) {
+    if (this.logGroups[name] == null) {
+      const logGroup = new LogGroup(this, name, {
+        logGroupName: `/dify/${Stack.of(this).stackName}/${name}`,
+        retention: this.props.retention ?? RetentionDays.INFINITE,
+        encryptionKey: this.props.encryptionKey,
+        removalPolicy: this.props.removalPolicy ?? RemovalPolicy.DESTROY,
+      });
+      if (this.deliveryStream) {
+        logGroup.addSubscriptionFilter('Archive', {
+          destination: new FirehoseDestination(this.deliveryStream),
+          filterPattern: FilterPattern.allEvents(),
+        });
+      }
+      this.logGroups[name] = logGroup;
+    }
+    return this.logGroups[name];
+  }
+}
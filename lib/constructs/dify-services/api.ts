@@ -1,6 +1,6 @@
 import { CpuArchitecture, FargateTaskDefinition, ICluster } from 'aws-cdk-lib/aws-ecs';
 import { Construct } from 'constructs';
-import { CfnOutput, Duration, Stack, aws_ecs as ecs } from 'aws-cdk-lib';
+import { CfnOutput, Duration, Names, RemovalPolicy, Stack, aws_ecs as ecs } from 'aws-cdk-lib';
 import { Platform } from 'aws-cdk-lib/aws-ecr-assets';
 import { AccessKey, ManagedPolicy, PolicyStatement, User } from 'aws-cdk-lib/aws-iam';
 import { Postgres } from '../postgres';
@@ -8,66 +8,270 @@ import { Redis } from '../redis';
 import { IBucket } from 'aws-cdk-lib/aws-s3';
 import { Secret } from 'aws-cdk-lib/aws-secretsmanager';
 import { join } from 'path';
-import { IAlb } from '../alb';
+import { AlbRoute, IAlb } from '../alb';
 import { IRepository, Repository } from 'aws-cdk-lib/aws-ecr';
 import { getAdditionalEnvironmentVariables, getAdditionalSecretVariables } from './environment-variables';
-import { EnvironmentProps } from '../../environment-props';
+import { EnvironmentProps, LogLevel, ServiceAutoScalingProps } from '../../environment-props';
 import { EmailService } from '../email';
 import { AwsCustomResource, AwsCustomResourcePolicy, PhysicalResourceId } from 'aws-cdk-lib/custom-resources';
+import { configureAutoScaling, drainingTimeout } from './auto-scaling';
+import { Port } from 'aws-cdk-lib/aws-ec2';
+import { ApplicationTargetGroup } from 'aws-cdk-lib/aws-elasticloadbalancingv2';
+import { HttpNamespace } from 'aws-cdk-lib/aws-servicediscovery';
+import { OpenSearchServerless } from '../opensearch';
+import { ContainerLogs } from '../container-logs';
+import { addOtelCollector, getOtelEnvironment } from './otel-collector';
+import { SecretRotation } from '../secret-rotation';
 
 export interface ApiServiceProps {
   cluster: ICluster;
   alb: IAlb;
+  logs: ContainerLogs;
 
   postgres: Postgres;
   redis: Redis;
   storageBucket: IBucket;
   email?: EmailService;
 
+  /**
+   * If set, Dify uses the OpenSearch Serverless collection as its vector store.
+   * @default pgvector database in {@link postgres}
+   */
+  openSearch?: OpenSearchServerless;
+
   imageTag: string;
   sandboxImageTag: string;
   pluginDaemonImageTag: string;
   allowAnySyscalls: boolean;
 
   /**
-   * If true, enable debug outputs
-   * @default false
+   * The log level of the api container. DEBUG also enables the debug mode of Dify.
+   * @default 'ERROR'
    */
-  debug?: boolean;
+  logLevel?: LogLevel;
+
+  /**
+   * @default 'ERROR'
+   */
+  workerLogLevel?: LogLevel;
+
+  /**
+   * The plugin daemon only distinguishes DEBUG, which runs Gin in debug mode, from the other levels.
+   * @default 'ERROR'
+   */
+  pluginDaemonLogLevel?: LogLevel;
 
   customRepository?: IRepository;
 
+  /**
+   * If set, the external knowledge API for Bedrock Knowledge Bases is added to the api task as a sidecar.
+   * @default the external knowledge API is not deployed.
+   */
+  externalKnowledgeApi?: {
+    /**
+     * The region used for knowledge base IDs without a region prefix.
+     */
+    bedrockRegion: string;
+
+    /**
+     * The knowledge bases that Dify can retrieve from.
+     */
+    knowledgeBaseArns: string[];
+  };
+
+  /**
+   * If set, an ADOT collector sidecar is added to the api and worker tasks.
+   * @default OpenTelemetry is disabled.
+   */
+  openTelemetry?: EnvironmentProps['openTelemetry'];
+
   additionalEnvironmentVariables: EnvironmentProps['additionalEnvironmentVariables'];
 
   autoMigration: boolean;
   useFargateSpot: boolean;
+
+  /**
+   * The removal policy of secrets used to encrypt Dify data.
+   * @default RemovalPolicy.DESTROY
+   */
+  secretRemovalPolicy?: RemovalPolicy;
+
+  /**
+   * If set, the keys used between Dify components are rotated in the interval.
+   * The api service is redeployed after the rotation. It cannot be set with separateServices.
+   * @default keys are not rotated.
+   */
+  internalKeyRotationDays?: number;
+  cpuArchitecture: CpuArchitecture;
+
+  /**
+   * If true, api, worker, sandbox, and plugin-daemon are deployed as separate ECS services
+   * that communicate with each other via ECS Service Connect.
+   * @default false
+   */
+  separateServices?: boolean;
+
+  /**
+   * Only api is used unless separateServices is true, because the containers share a single task.
+   * @default see {@link EnvironmentProps.taskSizes}
+   */
+  taskSizes?: EnvironmentProps['taskSizes'];
+
+  /**
+   * @default No auto scaling
+   */
+  autoScaling?: ServiceAutoScalingProps;
+
+  /**
+   * This property is only used when {@link separateServices} is true.
+   * @default No auto scaling
+   */
+  workerAutoScaling?: ServiceAutoScalingProps;
 }
 
 export class ApiService extends Construct {
+  /**
+   * The ECS services created by this construct keyed by their role, e.g. Api and Worker.
+   */
+  public readonly services: { [name: string]: ecs.FargateService };
+  public readonly targetGroup: ApplicationTargetGroup;
+
   constructor(scope: Construct, id: string, props: ApiServiceProps) {
     super(scope, id);
 
-    const { cluster, alb, postgres, redis, storageBucket, email, debug = false, customRepository } = props;
+    const {
+      cluster,
+      alb,
+      logs,
+      postgres,
+      redis,
+      storageBucket,
+      email,
+      openSearch,
+      logLevel = 'ERROR',
+      workerLogLevel = 'ERROR',
+      pluginDaemonLogLevel = 'ERROR',
+      customRepository,
+      separateServices = false,
+      taskSizes = {},
+      cpuArchitecture,
+    } = props;
     const port = 5001;
+    const sandboxPort = 8194;
+    const pluginDaemonPort = 5002;
     const volumeName = 'sandbox';
 
     const taskDefinition = new FargateTaskDefinition(this, 'Task', {
-      cpu: 1024,
-      memoryLimitMiB: 2048, // We got OOM frequently when RAM=512MB
-      runtimePlatform: { cpuArchitecture: CpuArchitecture.X86_64 },
-      volumes: [
-        {
-          name: volumeName,
-        },
-      ],
+      // We got OOM frequently when RAM=512MB
+      ...(taskSizes.api ?? { cpu: 1024, memoryLimitMiB: 2048 }),
+      runtimePlatform: { cpuArchitecture },
+      volumes: separateServices
+        ? undefined
+        : [
+            {
+              name: volumeName,
+            },
+          ],
     });
 
+    // the containers of an auto scaled task keep running while the task drains in-flight requests on scale-in.
+    // sandbox and plugin-daemon are auto scaled only as a part of the shared api task.
+    const stopTimeout = props.autoScaling ? drainingTimeout : undefined;
+    const sharedStopTimeout = separateServices ? undefined : stopTimeout;
+    // Celery finishes the running tasks on SIGTERM before the worker exits.
+    const workerStopTimeout = (separateServices ? props.workerAutoScaling : props.autoScaling)
+      ? drainingTimeout
+      : undefined;
+
+    // When separateServices is true, each component gets its own task definition.
+    // Otherwise all the containers are placed in a single task and communicate via localhost.
+    const workerTaskDefinition = separateServices
+      ? new FargateTaskDefinition(this, 'WorkerTask', {
+          ...(taskSizes.worker ?? { cpu: 1024, memoryLimitMiB: 2048 }),
+          runtimePlatform: { cpuArchitecture },
+        })
+      : taskDefinition;
+    const sandboxTaskDefinition = separateServices
+      ? new FargateTaskDefinition(this, 'SandboxTask', {
+          ...(taskSizes.sandbox ?? { cpu: 512, memoryLimitMiB: 1024 }),
+          runtimePlatform: { cpuArchitecture },
+          volumes: [{ name: volumeName }],
+        })
+      : taskDefinition;
+    const pluginDaemonTaskDefinition = separateServices
+      ? new FargateTaskDefinition(this, 'PluginDaemonTask', {
+          ...(taskSizes.pluginDaemon ?? { cpu: 1024, memoryLimitMiB: 2048 }),
+          runtimePlatform: { cpuArchitecture },
+        })
+      : taskDefinition;
+
+    // Service Connect resolves these names to the corresponding ECS services.
+    const endpoints = separateServices
+      ? {
+          api: `http://api:${port}`,
+          sandbox: `http://sandbox:${sandboxPort}`,
+          pluginDaemon: `http://plugin-daemon:${pluginDaemonPort}`,
+        }
+      : {
+          api: `http://localhost:${port}`,
+          sandbox: `http://localhost:${sandboxPort}`,
+          pluginDaemon: `http://localhost:${pluginDaemonPort}`,
+        };
+
+    const vectorStoreEnvironment: { [key: string]: string } = openSearch
+      ? {
+          // OpenSearch Serverless configurations
+          VECTOR_STORE: 'opensearch',
+          OPENSEARCH_HOST: openSearch.endpoint,
+          OPENSEARCH_PORT: openSearch.port.toString(),
+          OPENSEARCH_SECURE: 'true',
+          OPENSEARCH_VERIFY_CERTS: 'true',
+          OPENSEARCH_AUTH_METHOD: 'aws_managed_iam',
+          OPENSEARCH_AWS_REGION: Stack.of(this).region,
+          OPENSEARCH_AWS_SERVICE: 'aoss',
+        }
+      : {
+          // pgvector configurations
+          VECTOR_STORE: 'pgvector',
+          PGVECTOR_HOST: postgres.hostname,
+          PGVECTOR_PORT: postgres.port,
+          PGVECTOR_DATABASE: postgres.pgVectorDatabaseName,
+        };
+    const vectorStoreSecrets: { [key: string]: ecs.Secret } = openSearch
+      ? {}
+      : {
+          PGVECTOR_USER: ecs.Secret.fromSecretsManager(postgres.secret, 'username'),
+          PGVECTOR_PASSWORD: ecs.Secret.fromSecretsManager(postgres.secret, 'password'),
+        };
+
+    const secretRemovalPolicy = props.secretRemovalPolicy ?? RemovalPolicy.DESTROY;
+    // SECRET_KEY signs user sessions. Changing it logs out all the users, so we do not rotate it.
     const encryptionSecret = new Secret(this, 'EncryptionSecret', {
       generateSecretString: {
         passwordLength: 42,
       },
+      removalPolicy: secretRemovalPolicy,
     });
 
+    // The keys below authenticate requests between Dify components. Each key is shared only by the two ends,
+    // so that a leaked key does not expose the others.
+    const internalKeyLength = 42;
+    const createInternalKey = (secretId: string, description: string) =>
+      new Secret(this, secretId, {
+        description,
+        generateSecretString: {
+          passwordLength: internalKeyLength,
+          excludePunctuation: true,
+        },
+        removalPolicy: secretRemovalPolicy,
+      });
+    const sandboxApiKey = createInternalKey('SandboxApiKey', 'The key for api to call Dify sandbox');
+    const pluginDaemonKey = createInternalKey(
+      'PluginDaemonKey',
+      'The key for api and worker to call Dify plugin daemon',
+    );
+    const pluginInnerApiKey = createInternalKey('PluginInnerApiKey', 'The key for Dify plugin daemon to call api');
+
     taskDefinition.addContainer('Main', {
       image: customRepository
         ? ecs.ContainerImage.fromEcrRepository(customRepository, `dify-api_${props.imageTag}`)
@@ -76,19 +280,20 @@ export class ApiService extends Construct {
       environment: {
         MODE: 'api',
         // The log level for the application. Supported values are `DEBUG`, `INFO`, `WARNING`, `ERROR`, `CRITICAL`
-        LOG_LEVEL: debug ? 'DEBUG' : 'ERROR',
+        LOG_LEVEL: logLevel,
         // enable DEBUG mode to output more logs
-        DEBUG: debug ? 'true' : 'false',
+        DEBUG: logLevel == 'DEBUG' ? 'true' : 'false',
+        ...getOtelEnvironment(props.openTelemetry),
 
         // The base URL of console application web frontend, refers to the Console base URL of WEB service if console domain is
         // different from api or web app domain.
-        CONSOLE_WEB_URL: alb.url,
+        CONSOLE_WEB_URL: alb.urls.console,
         // The base URL of console application api server, refers to the Console base URL of WEB service if console domain is different from api or web app domain.
-        CONSOLE_API_URL: alb.url,
+        CONSOLE_API_URL: alb.urls.console,
         // The URL prefix for Service API endpoints, refers to the base URL of the current API service if api domain is different from console domain.
-        SERVICE_API_URL: alb.url,
+        SERVICE_API_URL: alb.urls.serviceApi,
         // The URL prefix for Web APP frontend, refers to the Web App base URL of WEB service if web app domain is different from console or api domain.
-        APP_WEB_URL: alb.url,
+        APP_WEB_URL: alb.urls.apps,
 
         // Enable pessimistic disconnect handling for recover from Aurora automatic pause
         // https://docs.sqlalchemy.org/en/20/core/pooling.html#disconnect-handling-pessimistic
@@ -112,16 +317,16 @@ export class ApiService extends Construct {
         S3_USE_AWS_MANAGED_IAM: 'true',
 
         // postgres settings. the credentials are in secrets property.
+        DB_HOST: postgres.hostname,
+        DB_PORT: postgres.port,
         DB_DATABASE: postgres.databaseName,
 
-        // pgvector configurations
-        VECTOR_STORE: 'pgvector',
-        PGVECTOR_DATABASE: postgres.pgVectorDatabaseName,
+        ...vectorStoreEnvironment,
 
         // The sandbox service endpoint.
-        CODE_EXECUTION_ENDPOINT: 'http://localhost:8194',
+        CODE_EXECUTION_ENDPOINT: endpoints.sandbox,
 
-        PLUGIN_DAEMON_URL: 'http://localhost:5002',
+        PLUGIN_DAEMON_URL: endpoints.pluginDaemon,
 
         MARKETPLACE_API_URL: 'https://marketplace.dify.ai',
         MARKETPLACE_URL: 'https://marketplace.dify.ai',
@@ -138,27 +343,21 @@ export class ApiService extends Construct {
 
         ...getAdditionalEnvironmentVariables(this, 'api', props.additionalEnvironmentVariables),
       },
-      logging: ecs.LogDriver.awsLogs({
-        streamPrefix: 'log',
-      }),
-      portMappings: [{ containerPort: port }],
+      logging: logs.logDriver('api'),
+      stopTimeout,
+      portMappings: [{ containerPort: port, name: 'api' }],
       secrets: {
         // The configurations of postgres database connection.
         // It is consistent with the configuration in the 'db' service below.
         DB_USERNAME: ecs.Secret.fromSecretsManager(postgres.secret, 'username'),
-        DB_HOST: ecs.Secret.fromSecretsManager(postgres.secret, 'host'),
-        DB_PORT: ecs.Secret.fromSecretsManager(postgres.secret, 'port'),
         DB_PASSWORD: ecs.Secret.fromSecretsManager(postgres.secret, 'password'),
-        PGVECTOR_USER: ecs.Secret.fromSecretsManager(postgres.secret, 'username'),
-        PGVECTOR_HOST: ecs.Secret.fromSecretsManager(postgres.secret, 'host'),
-        PGVECTOR_PORT: ecs.Secret.fromSecretsManager(postgres.secret, 'port'),
-        PGVECTOR_PASSWORD: ecs.Secret.fromSecretsManager(postgres.secret, 'password'),
+        ...vectorStoreSecrets,
         REDIS_PASSWORD: ecs.Secret.fromSecretsManager(redis.secret),
-        CELERY_BROKER_URL: ecs.Secret.fromSsmParameter(redis.brokerUrl),
+        CELERY_BROKER_URL: ecs.Secret.fromSecretsManager(redis.brokerUrl),
         SECRET_KEY: ecs.Secret.fromSecretsManager(encryptionSecret),
-        CODE_EXECUTION_API_KEY: ecs.Secret.fromSecretsManager(encryptionSecret), // is it ok to reuse this?
-        INNER_API_KEY_FOR_PLUGIN: ecs.Secret.fromSecretsManager(encryptionSecret), // is it ok to reuse this?
-        PLUGIN_DAEMON_KEY: ecs.Secret.fromSecretsManager(encryptionSecret), // is it ok to reuse this?
+        CODE_EXECUTION_API_KEY: ecs.Secret.fromSecretsManager(sandboxApiKey),
+        INNER_API_KEY_FOR_PLUGIN: ecs.Secret.fromSecretsManager(pluginInnerApiKey),
+        PLUGIN_DAEMON_KEY: ecs.Secret.fromSecretsManager(pluginDaemonKey),
         ...(email
           ? {
               SMTP_USERNAME: ecs.Secret.fromSecretsManager(email.smtpCredentials, 'username'),
@@ -177,21 +376,22 @@ export class ApiService extends Construct {
       },
     });
 
-    taskDefinition.addContainer('Worker', {
+    workerTaskDefinition.addContainer('Worker', {
       image: customRepository
         ? ecs.ContainerImage.fromEcrRepository(customRepository, `dify-api_${props.imageTag}`)
         : ecs.ContainerImage.fromRegistry(`langgenius/dify-api:${props.imageTag}`),
       environment: {
         MODE: 'worker',
         // The log level for the application. Supported values are `DEBUG`, `INFO`, `WARNING`, `ERROR`, `CRITICAL`
-        LOG_LEVEL: debug ? 'DEBUG' : 'ERROR',
+        LOG_LEVEL: workerLogLevel,
         // enable DEBUG mode to output more logs
-        DEBUG: debug ? 'true' : 'false',
+        DEBUG: workerLogLevel == 'DEBUG' ? 'true' : 'false',
+        ...getOtelEnvironment(props.openTelemetry),
 
-        CONSOLE_WEB_URL: alb.url,
-        CONSOLE_API_URL: alb.url,
-        SERVICE_API_URL: alb.url,
-        APP_WEB_URL: alb.url,
+        CONSOLE_WEB_URL: alb.urls.console,
+        CONSOLE_API_URL: alb.urls.console,
+        SERVICE_API_URL: alb.urls.serviceApi,
+        APP_WEB_URL: alb.urls.apps,
 
         // When enabled, migrations will be executed prior to application startup and the application will start after the migrations have completed.
         MIGRATION_ENABLED: props.autoMigration ? 'true' : 'false',
@@ -210,12 +410,12 @@ export class ApiService extends Construct {
         S3_BUCKET_NAME: storageBucket.bucketName,
         S3_REGION: Stack.of(storageBucket).region,
 
+        DB_HOST: postgres.hostname,
+        DB_PORT: postgres.port,
         DB_DATABASE: postgres.databaseName,
-        // pgvector configurations
-        VECTOR_STORE: 'pgvector',
-        PGVECTOR_DATABASE: postgres.pgVectorDatabaseName,
+        ...vectorStoreEnvironment,
 
-        PLUGIN_API_URL: 'http://localhost:5002',
+        PLUGIN_API_URL: endpoints.pluginDaemon,
 
         MARKETPLACE_API_URL: 'https://marketplace.dify.ai',
         MARKETPLACE_URL: 'https://marketplace.dify.ai',
@@ -231,22 +431,16 @@ export class ApiService extends Construct {
 
         ...getAdditionalEnvironmentVariables(this, 'worker', props.additionalEnvironmentVariables),
       },
-      logging: ecs.LogDriver.awsLogs({
-        streamPrefix: 'log',
-      }),
+      logging: logs.logDriver('worker'),
+      stopTimeout: workerStopTimeout,
       secrets: {
         DB_USERNAME: ecs.Secret.fromSecretsManager(postgres.secret, 'username'),
-        DB_HOST: ecs.Secret.fromSecretsManager(postgres.secret, 'host'),
-        DB_PORT: ecs.Secret.fromSecretsManager(postgres.secret, 'port'),
         DB_PASSWORD: ecs.Secret.fromSecretsManager(postgres.secret, 'password'),
-        PGVECTOR_USER: ecs.Secret.fromSecretsManager(postgres.secret, 'username'),
-        PGVECTOR_HOST: ecs.Secret.fromSecretsManager(postgres.secret, 'host'),
-        PGVECTOR_PORT: ecs.Secret.fromSecretsManager(postgres.secret, 'port'),
-        PGVECTOR_PASSWORD: ecs.Secret.fromSecretsManager(postgres.secret, 'password'),
+        ...vectorStoreSecrets,
         REDIS_PASSWORD: ecs.Secret.fromSecretsManager(redis.secret),
-        CELERY_BROKER_URL: ecs.Secret.fromSsmParameter(redis.brokerUrl),
+        CELERY_BROKER_URL: ecs.Secret.fromSecretsManager(redis.brokerUrl),
         SECRET_KEY: ecs.Secret.fromSecretsManager(encryptionSecret),
-        PLUGIN_DAEMON_KEY: ecs.Secret.fromSecretsManager(encryptionSecret),
+        PLUGIN_DAEMON_KEY: ecs.Secret.fromSecretsManager(pluginDaemonKey),
         ...(email
           ? {
               SMTP_USERNAME: ecs.Secret.fromSecretsManager(email.smtpCredentials, 'username'),
@@ -258,9 +452,9 @@ export class ApiService extends Construct {
       },
     });
 
-    const sandboxFileContainer = taskDefinition.addContainer('SandboxFileMount', {
+    const sandboxFileContainer = sandboxTaskDefinition.addContainer('SandboxFileMount', {
       image: ecs.ContainerImage.fromAsset(join(__dirname, 'docker', 'sandbox'), {
-        platform: Platform.LINUX_AMD64,
+        platform: cpuArchitecture == CpuArchitecture.ARM64 ? Platform.LINUX_ARM64 : Platform.LINUX_AMD64,
         buildArgs: {
           DISABLE_PYTHON_DEPENDENCIES: 'false',
         },
@@ -268,7 +462,7 @@ export class ApiService extends Construct {
       essential: false,
     });
 
-    const sandboxContainer = taskDefinition.addContainer('Sandbox', {
+    const sandboxContainer = sandboxTaskDefinition.addContainer('Sandbox', {
       image: customRepository
         ? ecs.ContainerImage.fromEcrRepository(customRepository, `dify-sandbox_${props.sandboxImageTag}`)
         : ecs.ContainerImage.fromRegistry(`langgenius/dify-sandbox:${props.sandboxImageTag}`),
@@ -286,12 +480,11 @@ export class ApiService extends Construct {
           : {}),
         ...getAdditionalEnvironmentVariables(this, 'sandbox', props.additionalEnvironmentVariables),
       },
-      logging: ecs.LogDriver.awsLogs({
-        streamPrefix: 'log',
-      }),
-      portMappings: [{ containerPort: 8194 }],
+      logging: logs.logDriver('sandbox'),
+      stopTimeout: sharedStopTimeout,
+      portMappings: [{ containerPort: sandboxPort, name: 'sandbox' }],
       secrets: {
-        API_KEY: ecs.Secret.fromSecretsManager(encryptionSecret),
+        API_KEY: ecs.Secret.fromSecretsManager(sandboxApiKey),
         ...getAdditionalSecretVariables(this, 'sandbox', props.additionalEnvironmentVariables),
       },
     });
@@ -311,22 +504,26 @@ export class ApiService extends Construct {
       condition: ecs.ContainerDependencyCondition.COMPLETE,
     });
 
-    taskDefinition.addContainer('PluginDaemon', {
+    pluginDaemonTaskDefinition.addContainer('PluginDaemon', {
       image: customRepository
         ? ecs.ContainerImage.fromEcrRepository(customRepository, `dify-plugin-daemon_${props.pluginDaemonImageTag}`)
         : ecs.ContainerImage.fromRegistry(`langgenius/dify-plugin-daemon:${props.pluginDaemonImageTag}`),
       environment: {
-        GIN_MODE: 'release',
+        GIN_MODE: pluginDaemonLogLevel == 'DEBUG' ? 'debug' : 'release',
 
         // The configurations of redis connection.
         REDIS_HOST: redis.endpoint,
         REDIS_PORT: redis.port.toString(),
         REDIS_USE_SSL: 'true',
 
+        DB_HOST: postgres.hostname,
+        DB_PORT: postgres.port,
         DB_DATABASE: 'dify_plugin',
+        PGVECTOR_HOST: postgres.hostname,
+        PGVECTOR_PORT: postgres.port,
         DB_SSL_MODE: 'disable',
 
-        SERVER_PORT: '5002',
+        SERVER_PORT: pluginDaemonPort.toString(),
 
         AWS_REGION: Stack.of(this).region,
 
@@ -347,7 +544,7 @@ export class ApiService extends Construct {
         LIFETIME_STATE_GC_INTERVAL: '300',
         DIFY_INVOCATION_CONNECTION_IDLE_TIMEOUT: '120',
         PYTHON_ENV_INIT_TIMEOUT: '120',
-        DIFY_INNER_API_URL: `http://localhost:${port}`,
+        DIFY_INNER_API_URL: endpoints.api,
         PLUGIN_WORKING_PATH: '/app/storage/cwd',
         FORCE_VERIFYING_SIGNATURE: 'true',
         S3_USE_AWS_MANAGED_IAM: 'true',
@@ -355,77 +552,174 @@ export class ApiService extends Construct {
       },
       secrets: {
         DB_USERNAME: ecs.Secret.fromSecretsManager(postgres.secret, 'username'),
-        DB_HOST: ecs.Secret.fromSecretsManager(postgres.secret, 'host'),
-        DB_PORT: ecs.Secret.fromSecretsManager(postgres.secret, 'port'),
         DB_PASSWORD: ecs.Secret.fromSecretsManager(postgres.secret, 'password'),
         PGVECTOR_USER: ecs.Secret.fromSecretsManager(postgres.secret, 'username'),
-        PGVECTOR_HOST: ecs.Secret.fromSecretsManager(postgres.secret, 'host'),
-        PGVECTOR_PORT: ecs.Secret.fromSecretsManager(postgres.secret, 'port'),
         PGVECTOR_PASSWORD: ecs.Secret.fromSecretsManager(postgres.secret, 'password'),
         REDIS_PASSWORD: ecs.Secret.fromSecretsManager(redis.secret),
-        CELERY_BROKER_URL: ecs.Secret.fromSsmParameter(redis.brokerUrl),
-        DIFY_INNER_API_KEY: ecs.Secret.fromSecretsManager(encryptionSecret), // is it ok to reuse this?
-        SERVER_KEY: ecs.Secret.fromSecretsManager(encryptionSecret), // is it ok to reuse this?
+        CELERY_BROKER_URL: ecs.Secret.fromSecretsManager(redis.brokerUrl),
+        DIFY_INNER_API_KEY: ecs.Secret.fromSecretsManager(pluginInnerApiKey),
+        SERVER_KEY: ecs.Secret.fromSecretsManager(pluginDaemonKey),
       },
-      logging: ecs.LogDriver.awsLogs({
-        streamPrefix: 'log',
-      }),
-      portMappings: [{ containerPort: 5002 }, { containerPort: 5003 }],
+      logging: logs.logDriver('plugin-daemon'),
+      stopTimeout: sharedStopTimeout,
+      portMappings: [{ containerPort: pluginDaemonPort, name: 'plugin-daemon' }, { containerPort: 5003 }],
     });
 
-    taskDefinition.addContainer('ExternalKnowledgeBaseAPI', {
-      image: ecs.ContainerImage.fromAsset(join(__dirname, 'docker', 'external-knowledge-api'), {
-        platform: Platform.LINUX_AMD64,
-        buildArgs: {
-          DIFY_VERSION: props.sandboxImageTag,
+    const { externalKnowledgeApi } = props;
+    if (externalKnowledgeApi) {
+      const bearerToken = new Secret(this, 'ExternalKnowledgeApiKey', {
+        description: 'The API key of the external knowledge API for Bedrock Knowledge Bases',
+        generateSecretString: {
+          passwordLength: 32,
+          excludePunctuation: true,
         },
-      }),
-      environment: {
-        BEARER_TOKEN: 'dummy-key',
-        BEDROCK_REGION: 'us-west-2',
-      },
-      logging: ecs.LogDriver.awsLogs({
-        streamPrefix: 'log',
-      }),
-      portMappings: [{ containerPort: 8000 }],
-    });
-    storageBucket.grantReadWrite(taskDefinition.taskRole);
-
-    taskDefinition.taskRole.addToPrincipalPolicy(
-      new PolicyStatement({
-        actions: [
-          'bedrock:InvokeModel',
-          'bedrock:InvokeModelWithResponseStream',
-          'bedrock:Rerank',
-          'bedrock:Retrieve',
-          'bedrock:RetrieveAndGenerate',
-        ],
-        resources: ['*'],
-      }),
-    );
-
-    const service = new ecs.FargateService(this, 'FargateService', {
-      cluster,
-      taskDefinition,
-      capacityProviderStrategies: [
-        {
-          capacityProvider: 'FARGATE',
-          weight: props.useFargateSpot ? 0 : 1,
+        removalPolicy: secretRemovalPolicy,
+      });
+
+      taskDefinition.addContainer('ExternalKnowledgeBaseAPI', {
+        image: ecs.ContainerImage.fromAsset(join(__dirname, 'docker', 'external-knowledge-api'), {
+          platform: cpuArchitecture == CpuArchitecture.ARM64 ? Platform.LINUX_ARM64 : Platform.LINUX_AMD64,
+          buildArgs: {
+            DIFY_VERSION: props.sandboxImageTag,
+          },
+        }),
+        environment: {
+          BEDROCK_REGION: externalKnowledgeApi.bedrockRegion,
         },
-        {
-          capacityProvider: 'FARGATE_SPOT',
-          weight: props.useFargateSpot ? 1 : 0,
+        secrets: {
+          BEARER_TOKEN: ecs.Secret.fromSecretsManager(bearerToken),
         },
-      ],
-      enableExecuteCommand: true,
-      minHealthyPercent: 100,
-    });
+        logging: logs.logDriver('external-knowledge-api'),
+        stopTimeout,
+        portMappings: [{ containerPort: 8000 }],
+      });
+
+      new CfnOutput(Stack.of(this), 'GetExternalKnowledgeApiKeyCommand', {
+        value: `aws secretsmanager get-secret-value --region ${Stack.of(this).region} --secret-id ${bearerToken.secretName} --query SecretString --output text`,
+      });
+    }
+
+    for (const task of new Set([taskDefinition, workerTaskDefinition])) {
+      openSearch?.grantReadWrite(task.taskRole);
+      if (props.openTelemetry) {
+        addOtelCollector(task, { logs, openTelemetry: props.openTelemetry, customRepository });
+      }
+    }
+
+    for (const task of new Set([taskDefinition, workerTaskDefinition, pluginDaemonTaskDefinition])) {
+      storageBucket.grantReadWrite(task.taskRole);
+
+      task.taskRole.addToPrincipalPolicy(
+        new PolicyStatement({
+          actions: [
+            'bedrock:InvokeModel',
+            'bedrock:InvokeModelWithResponseStream',
+            'bedrock:Rerank',
+            // when the external knowledge API is enabled, retrieval is allowed only for the knowledge bases below.
+            ...(externalKnowledgeApi ? [] : ['bedrock:Retrieve', 'bedrock:RetrieveAndGenerate']),
+          ],
+          resources: ['*'],
+        }),
+      );
+      if (externalKnowledgeApi) {
+        task.taskRole.addToPrincipalPolicy(
+          new PolicyStatement({
+            actions: ['bedrock:Retrieve', 'bedrock:RetrieveAndGenerate'],
+            resources: externalKnowledgeApi.knowledgeBaseArns,
+          }),
+        );
+      }
+    }
+
+    const namespace = separateServices
+      ? new HttpNamespace(this, 'Namespace', {
+          name: Names.uniqueResourceName(this, { maxLength: 64, separator: '-' }).toLowerCase(),
+          description: 'Service Connect namespace for Dify services',
+        })
+      : undefined;
+
+    const createService = (id: string, taskDefinition: FargateTaskDefinition, services?: ecs.ServiceConnectService[]) =>
+      new ecs.FargateService(this, id, {
+        cluster,
+        taskDefinition,
+        capacityProviderStrategies: [
+          {
+            capacityProvider: 'FARGATE',
+            weight: props.useFargateSpot ? 0 : 1,
+          },
+          {
+            capacityProvider: 'FARGATE_SPOT',
+            weight: props.useFargateSpot ? 1 : 0,
+          },
+        ],
+        enableExecuteCommand: true,
+        minHealthyPercent: 100,
+        serviceConnectConfiguration: namespace ? { namespace: namespace.namespaceArn, services } : undefined,
+      });
+
+    const service = createService('FargateService', taskDefinition, [{ portMappingName: 'api', dnsName: 'api', port }]);
 
     postgres.connections.allowDefaultPortFrom(service);
     redis.connections.allowDefaultPortFrom(service);
-
-    const paths = ['/console/api', '/api', '/v1', '/files'];
-    alb.addEcsService('Api', service, port, '/health', [...paths, ...paths.map((p) => `${p}/*`)]);
+    openSearch?.connections.allowDefaultPortFrom(service);
+    this.services = { Api: service };
+
+    if (separateServices) {
+      const workerService = createService('WorkerService', workerTaskDefinition);
+      const sandboxService = createService('SandboxService', sandboxTaskDefinition, [
+        { portMappingName: 'sandbox', dnsName: 'sandbox', port: sandboxPort },
+      ]);
+      const pluginDaemonService = createService('PluginDaemonService', pluginDaemonTaskDefinition, [
+        { portMappingName: 'plugin-daemon', dnsName: 'plugin-daemon', port: pluginDaemonPort },
+      ]);
+
+      for (const s of [workerService, pluginDaemonService]) {
+        postgres.connections.allowDefaultPortFrom(s);
+        redis.connections.allowDefaultPortFrom(s);
+      }
+      openSearch?.connections.allowDefaultPortFrom(workerService);
+      sandboxService.connections.allowFrom(service, Port.tcp(sandboxPort));
+      pluginDaemonService.connections.allowFrom(service, Port.tcp(pluginDaemonPort));
+      pluginDaemonService.connections.allowFrom(workerService, Port.tcp(pluginDaemonPort));
+      service.connections.allowFrom(pluginDaemonService, Port.tcp(port));
+
+      configureAutoScaling(workerService, undefined, props.workerAutoScaling);
+      this.services.Worker = workerService;
+      this.services.Sandbox = sandboxService;
+      this.services.PluginDaemon = pluginDaemonService;
+    }
+
+    if (props.internalKeyRotationDays != null) {
+      // the containers in a task always get the same keys, so a rolling deployment of the shared task never mixes them.
+      // separate services would use different keys until all of them are redeployed.
+      const rotations = [
+        { id: 'SandboxApiKeyRotation', secret: sandboxApiKey },
+        { id: 'PluginDaemonKeyRotation', secret: pluginDaemonKey },
+        { id: 'PluginInnerApiKeyRotation', secret: pluginInnerApiKey },
+      ];
+      for (const rotation of rotations) {
+        new SecretRotation(this, rotation.id, {
+          secret: rotation.secret,
+          passwordLength: internalKeyLength,
+          rotationDays: props.internalKeyRotationDays,
+          cluster,
+          services: [this.services.Api],
+        });
+      }
+    }
+
+    const routes: AlbRoute[] = [
+      { paths: ['/console/api'], endpoints: ['console'] },
+      { paths: ['/api'], endpoints: ['console', 'apps'] },
+      { paths: ['/v1'], endpoints: ['serviceApi'] },
+      { paths: ['/files'], endpoints: ['console', 'apps', 'serviceApi'] },
+    ];
+    const targetGroup = alb.addEcsService('Api', service, port, '/health', [
+      ...routes,
+      ...routes.map(({ paths, endpoints }) => ({ paths: paths.map((p) => `${p}/*`), endpoints })),
+    ]);
+    configureAutoScaling(service, targetGroup, props.autoScaling);
+    this.targetGroup = targetGroup;
 
     new AwsCustomResource(this, 'CreatePluginsPlaceholder', {
       onUpdate: {
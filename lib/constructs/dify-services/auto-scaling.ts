@@ -0,0 +1,52 @@
+import { Duration, aws_ecs as ecs } from 'aws-cdk-lib';
+import { ApplicationTargetGroup } from 'aws-cdk-lib/aws-elasticloadbalancingv2';
+import { ServiceAutoScalingProps } from '../../environment-props';
+
+/**
+ * How long a task being scaled in keeps serving in-flight requests such as streamed LLM responses.
+ * It is used both for the deregistration delay of the target group and the stop timeout of the containers,
+ * and 120 seconds is the maximum stop timeout on Fargate.
+ */
+export const drainingTimeout = Duration.seconds(120);
+
+export const configureAutoScaling = (
+  service: ecs.FargateService,
+  targetGroup: ApplicationTargetGroup | undefined,
+  props: ServiceAutoScalingProps | undefined,
+) => {
+  if (props == null) {
+    return;
+  }
+
+  const { minCapacity = 1, maxCapacity, scaleInCooldownSeconds = 600, scaleOutCooldownSeconds = 60 } = props;
+
+  // the ALB stops sending new requests to a task chosen for scale-in, and waits for the in-flight ones before ECS stops it.
+  targetGroup?.setAttribute('deregistration_delay.timeout_seconds', drainingTimeout.toSeconds().toString());
+
+  const scaling = service.autoScaleTaskCount({ minCapacity, maxCapacity });
+  const cooldowns = {
+    scaleInCooldown: Duration.seconds(scaleInCooldownSeconds),
+    scaleOutCooldown: Duration.seconds(scaleOutCooldownSeconds),
+  };
+
+  if (props.targetCpuUtilizationPercent != null) {
+    scaling.scaleOnCpuUtilization('CpuScaling', {
+      targetUtilizationPercent: props.targetCpuUtilizationPercent,
+      ...cooldowns,
+    });
+  }
+  if (props.targetMemoryUtilizationPercent != null) {
+    scaling.scaleOnMemoryUtilization('MemoryScaling', {
+      targetUtilizationPercent: props.targetMemoryUtilizationPercent,
+      ...cooldowns,
+    });
+  }
+  // validateEnvironmentProps accepts targetRequestCountPerTarget only for the services behind the ALB.
+  if (props.targetRequestCountPerTarget != null && targetGroup != null) {
+    scaling.scaleOnRequestCount('RequestCountScaling', {
+      requestsPerTarget: props.targetRequestCountPerTarget,
+      targetGroup,
+      ...cooldowns,
+    });
+  }
+};
@@ -0,0 +1,81 @@
+import { ArnFormat, Stack, aws_ecs as ecs } from 'aws-cdk-lib';
+import { IRepository } from 'aws-cdk-lib/aws-ecr';
+import { ManagedPolicy, PolicyStatement } from 'aws-cdk-lib/aws-iam';
+import { EnvironmentProps } from '../../environment-props';
+import { ContainerLogs } from '../container-logs';
+
+// The OTLP/HTTP receiver of the collector sidecar. Containers in a Fargate task share the network namespace.
+const otlpEndpoint = 'http://localhost:4318';
+
+// The log group that awsemf exporter in the default configuration writes metrics to.
+const emfLogGroupName = '/aws/ecs/application/metrics';
+
+/**
+ * Adds an ADOT collector sidecar that exports traces to X-Ray and metrics to CloudWatch.
+ * https://aws-otel.github.io/docs/setup/ecs
+ */
+export const addOtelCollector = (
+  taskDefinition: ecs.FargateTaskDefinition,
+  props: {
+    logs: ContainerLogs;
+    openTelemetry: NonNullable<EnvironmentProps['openTelemetry']>;
+    customRepository?: IRepository;
+  },
+) => {
+  const { logs, customRepository } = props;
+  const imageTag = props.openTelemetry.collectorImageTag ?? 'latest';
+
+  taskDefinition.addContainer('OtelCollector', {
+    image: customRepository
+      ? ecs.ContainerImage.fromEcrRepository(customRepository, `aws-otel-collector_${imageTag}`)
+      : ecs.ContainerImage.fromRegistry(`amazon/aws-otel-collector:${imageTag}`),
+    // the default configuration receives OTLP and exports them with awsxray and awsemf exporters.
+    command: ['--config=/etc/ecs/ecs-default-config.yaml'],
+    logging: logs.logDriver('otel-collector'),
+    // the application keeps running even if the collector fails.
+    essential: false,
+  });
+
+  const stack = Stack.of(taskDefinition);
+  taskDefinition.taskRole.addManagedPolicy(ManagedPolicy.fromAwsManagedPolicyName('AWSXrayWriteOnlyAccess'));
+  taskDefinition.taskRole.addToPrincipalPolicy(
+    new PolicyStatement({
+      actions: [
+        'logs:PutLogEvents',
+        'logs:CreateLogGroup',
+        'logs:CreateLogStream',
+        'logs:DescribeLogStreams',
+        'logs:DescribeLogGroups',
+      ],
+      resources: [
+        stack.formatArn({
+          service: 'logs',
+          resource: 'log-group',
+          resourceName: `${emfLogGroupName}:*`,
+          arnFormat: ArnFormat.COLON_RESOURCE_NAME,
+        }),
+      ],
+    }),
+  );
+};
+
+/**
+ * Returns the environment variables to send telemetry to the collector sidecar.
+ * Dify api and worker use their own variables, and the others are the standard ones of OpenTelemetry SDKs.
+ */
+export const getOtelEnvironment = (openTelemetry: EnvironmentProps['openTelemetry']): { [key: string]: string } => {
+  if (openTelemetry == null) {
+    return {};
+  }
+  const samplingRate = (openTelemetry.samplingRate ?? 0.1).toString();
+  return {
+    ENABLE_OTEL: 'true',
+    OTEL_EXPORTER_TYPE: 'otlp',
+    OTLP_BASE_ENDPOINT: otlpEndpoint,
+    OTEL_SAMPLING_RATE: samplingRate,
+    OTEL_EXPORTER_OTLP_ENDPOINT: otlpEndpoint,
+    OTEL_EXPORTER_OTLP_PROTOCOL: 'http/protobuf',
+    OTEL_TRACES_SAMPLER: 'parentbased_traceidratio',
+    OTEL_TRACES_SAMPLER_ARG: samplingRate,
+  };
+};
@@ -0,0 +1,19 @@
+// The CPU and memory combinations supported by Fargate. TaskSize props are validated against them in validateEnvironmentProps.
+// https://docs.aws.amazon.com/AmazonECS/latest/developerguide/fargate-tasks-services.html#fargate-tasks-size
+export const supportedMemoryMiB: { [cpu: number]: number[] } = {
+  256: [512, 1024, 2048],
+  512: range(1024, 4096, 1024),
+  1024: range(2048, 8192, 1024),
+  2048: range(4096, 16384, 1024),
+  4096: range(8192, 30720, 1024),
+  8192: range(16384, 61440, 4096),
+  16384: range(32768, 122880, 8192),
+};
+
+function range(start: number, end: number, step: number) {
+  const result: number[] = [];
+  for (let i = start; i <= end; i += step) {
+    result.push(i);
+  }
+  return result;
+}
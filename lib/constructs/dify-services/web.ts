@@ -3,37 +3,62 @@ import { Construct } from 'constructs';
 import { Duration, aws_ecs as ecs } from 'aws-cdk-lib';
 import { IAlb } from '../alb';
 import { IRepository } from 'aws-cdk-lib/aws-ecr';
-import { EnvironmentProps } from '../../environment-props';
+import { EnvironmentProps, LogLevel, ServiceAutoScalingProps, TaskSize } from '../../environment-props';
 import { getAdditionalEnvironmentVariables, getAdditionalSecretVariables } from './environment-variables';
+import { configureAutoScaling, drainingTimeout } from './auto-scaling';
+import { ContainerLogs } from '../container-logs';
+import { addOtelCollector, getOtelEnvironment } from './otel-collector';
+import { ApplicationTargetGroup } from 'aws-cdk-lib/aws-elasticloadbalancingv2';
 
 export interface WebServiceProps {
   cluster: ICluster;
   alb: IAlb;
+  logs: ContainerLogs;
 
   imageTag: string;
 
   /**
-   * If true, enable debug outputs
-   * @default false
+   * The log level of the web container. DEBUG also enables the debug mode of Dify.
+   * @default 'ERROR'
    */
-  debug?: boolean;
+  logLevel?: LogLevel;
+
   customRepository?: IRepository;
 
+  /**
+   * If set, an ADOT collector sidecar is added to the task.
+   * @default OpenTelemetry is disabled.
+   */
+  openTelemetry?: EnvironmentProps['openTelemetry'];
+
   additionalEnvironmentVariables: EnvironmentProps['additionalEnvironmentVariables'];
   useFargateSpot: boolean;
+  cpuArchitecture: CpuArchitecture;
+
+  /**
+   * @default 256 CPU / 512 MiB
+   */
+  taskSize?: TaskSize;
+
+  /**
+   * @default No auto scaling
+   */
+  autoScaling?: ServiceAutoScalingProps;
 }
 
 export class WebService extends Construct {
+  public readonly service: ecs.FargateService;
+  public readonly targetGroup: ApplicationTargetGroup;
+
   constructor(scope: Construct, id: string, props: WebServiceProps) {
     super(scope, id);
 
-    const { cluster, alb, debug = false, customRepository } = props;
+    const { cluster, alb, logs, logLevel = 'ERROR', customRepository } = props;
     const port = 3000;
 
     const taskDefinition = new FargateTaskDefinition(this, 'Task', {
-      cpu: 256,
-      memoryLimitMiB: 512,
-      runtimePlatform: { cpuArchitecture: CpuArchitecture.X86_64 },
+      ...(props.taskSize ?? { cpu: 256, memoryLimitMiB: 512 }),
+      runtimePlatform: { cpuArchitecture: props.cpuArchitecture },
     });
 
     taskDefinition.addContainer('Main', {
@@ -42,16 +67,17 @@ export class WebService extends Construct {
         : ecs.ContainerImage.fromRegistry(`langgenius/dify-web:${props.imageTag}`),
       environment: {
         // The log level for the application. Supported values are `DEBUG`, `INFO`, `WARNING`, `ERROR`, `CRITICAL`
-        LOG_LEVEL: debug ? 'DEBUG' : 'ERROR',
+        LOG_LEVEL: logLevel,
         // enable DEBUG mode to output more logs
-        DEBUG: debug ? 'true' : 'false',
+        DEBUG: logLevel == 'DEBUG' ? 'true' : 'false',
+        ...getOtelEnvironment(props.openTelemetry),
 
         // The base URL of console application api server, refers to the Console base URL of WEB service if console domain is different from api or web app domain.
         // example: http://cloud.dify.ai
-        CONSOLE_API_URL: alb.url,
+        CONSOLE_API_URL: alb.urls.console,
         // The URL prefix for Web APP frontend, refers to the Web App base URL of WEB service if web app domain is different from console or api domain.
         // example: http://udify.app
-        APP_API_URL: alb.url,
+        APP_API_URL: alb.urls.apps,
 
         // Setting host to 0.0.0.0 seems necessary for health check to pass.
         // https://nextjs.org/docs/pages/api-reference/next-config-js/output
@@ -66,9 +92,8 @@ export class WebService extends Construct {
       secrets: {
         ...getAdditionalSecretVariables(this, 'web', props.additionalEnvironmentVariables),
       },
-      logging: ecs.LogDriver.awsLogs({
-        streamPrefix: 'log',
-      }),
+      logging: logs.logDriver('web'),
+      stopTimeout: props.autoScaling ? drainingTimeout : undefined,
       portMappings: [{ containerPort: port }],
       healthCheck: {
         // use wget instead of curl due to alpine: https://stackoverflow.com/a/47722899/18550269
@@ -80,6 +105,10 @@ export class WebService extends Construct {
       },
     });
 
+    if (props.openTelemetry) {
+      addOtelCollector(taskDefinition, { logs, openTelemetry: props.openTelemetry, customRepository });
+    }
+
     const service = new ecs.FargateService(this, 'FargateService', {
       cluster,
       taskDefinition,
@@ -97,6 +126,12 @@ export class WebService extends Construct {
       minHealthyPercent: 100,
     });
 
-    alb.addEcsService('Web', service, port, '/', ['/*']);
+    // the service API endpoint does not serve any page.
+    const targetGroup = alb.addEcsService('Web', service, port, '/', [
+      { paths: ['/*'], endpoints: ['console', 'apps'] },
+    ]);
+    configureAutoScaling(service, targetGroup, props.autoScaling);
+    this.service = service;
+    this.targetGroup = targetGroup;
   }
 }
@@ -0,0 +1,130 @@
+import { Construct } from 'constructs';
+import { Names, RemovalPolicy, Stack } from 'aws-cdk-lib';
+import { CfnDataSource, CfnKnowledgeBase } from 'aws-cdk-lib/aws-bedrock';
+import { PolicyStatement, Role, ServicePrincipal } from 'aws-cdk-lib/aws-iam';
+import { BlockPublicAccess, Bucket } from 'aws-cdk-lib/aws-s3';
+import { Postgres } from './postgres';
+
+export interface KnowledgeBaseProps {
+  /**
+   * The knowledge base stores vectors in the pgvector database of this cluster.
+   */
+  postgres: Postgres;
+
+  /**
+   * @default RemovalPolicy.DESTROY
+   */
+  removalPolicy?: RemovalPolicy;
+}
+
+/**
+ * A Bedrock Knowledge Base with an S3 data source. Vectors are stored in Aurora PostgreSQL.
+ * https://docs.aws.amazon.com/AmazonRDS/latest/AuroraUserGuide/AuroraPostgreSQL.VectorDB.html
+ */
+export class KnowledgeBase extends Construct {
+  public readonly knowledgeBaseId: string;
+  public readonly knowledgeBaseArn: string;
+  public readonly sourceBucket: Bucket;
+
+  constructor(scope: Construct, id: string, props: KnowledgeBaseProps) {
+    super(scope, id);
+
+    const { postgres, removalPolicy = RemovalPolicy.DESTROY } = props;
+    const embeddingModelId = 'amazon.titan-embed-text-v2:0';
+    const dimensions = 1024;
+    const tableName = 'bedrock_integration.bedrock_kb';
+    const database = postgres.pgVectorDatabaseName;
+
+    postgres.runQuery('CREATE SCHEMA IF NOT EXISTS bedrock_integration;', database);
+    postgres.runQuery(
+      `CREATE TABLE IF NOT EXISTS ${tableName} (id uuid PRIMARY KEY, embedding vector(${dimensions}), chunks text, metadata json);`,
+      database,
+    );
+    postgres.runQuery(
+      `CREATE INDEX IF NOT EXISTS bedrock_kb_embedding_idx ON ${tableName} USING hnsw (embedding vector_cosine_ops);`,
+      database,
+    );
+    // required for hybrid search
+    const lastQuery = postgres.runQuery(
+      `CREATE INDEX IF NOT EXISTS bedrock_kb_chunks_idx ON ${tableName} USING gin (to_tsvector('simple', chunks));`,
+      database,
+    );
+
+    const sourceBucket = new Bucket(this, 'SourceBucket', {
+      enforceSSL: true,
+      blockPublicAccess: BlockPublicAccess.BLOCK_ALL,
+      removalPolicy,
+      autoDeleteObjects: removalPolicy == RemovalPolicy.DESTROY,
+    });
+
+    const embeddingModelArn = Stack.of(this).formatArn({
+      service: 'bedrock',
+      account: '',
+      resource: 'foundation-model',
+      resourceName: embeddingModelId,
+    });
+
+    const role = new Role(this, 'Role', {
+      assumedBy: new ServicePrincipal('bedrock.amazonaws.com'),
+    });
+    role.addToPolicy(
+      new PolicyStatement({
+        actions: ['bedrock:InvokeModel'],
+        resources: [embeddingModelArn],
+      }),
+    );
+    role.addToPolicy(
+      new PolicyStatement({
+        actions: ['rds:DescribeDBClusters'],
+        resources: [postgres.cluster.clusterArn],
+      }),
+    );
+    postgres.cluster.grantDataApiAccess(role);
+    postgres.secret.grantRead(role);
+    sourceBucket.grantRead(role);
+
+    const knowledgeBase = new CfnKnowledgeBase(this, 'Resource', {
+      name: Names.uniqueResourceName(this, { maxLength: 100, separator: '-' }),
+      description: 'Dify external knowledge base',
+      roleArn: role.roleArn,
+      knowledgeBaseConfiguration: {
+        type: 'VECTOR',
+        vectorKnowledgeBaseConfiguration: {
+          embeddingModelArn,
+        },
+      },
+      storageConfiguration: {
+        type: 'RDS',
+        rdsConfiguration: {
+          resourceArn: postgres.cluster.clusterArn,
+          credentialsSecretArn: postgres.secret.secretArn,
+          databaseName: database,
+          tableName,
+          fieldMapping: {
+            primaryKeyField: 'id',
+            vectorField: 'embedding',
+            textField: 'chunks',
+            metadataField: 'metadata',
+          },
+        },
+      },
+    });
+    // Bedrock validates the table and the IAM role on creation.
+    knowledgeBase.node.addDependency(lastQuery, role);
+
+    new CfnDataSource(this, 'DataSource', {
+      knowledgeBaseId: knowledgeBase.attrKnowledgeBaseId,
+      name: 's3',
+      dataSourceConfiguration: {
+        type: 'S3',
+        s3Configuration: {
+          bucketArn: sourceBucket.bucketArn,
+        },
+      },
+    });
+
+    this.knowledgeBaseId = knowledgeBase.attrKnowledgeBaseId;
+    this.knowledgeBaseArn = knowledgeBase.attrKnowledgeBaseArn;
+    this.sourceBucket = sourceBucket;
+  }
+}
@@ -0,0 +1,154 @@
+// A Secrets Manager rotation function for random keys shared by Dify containers.
+// See lib/constructs/secret-rotation.ts for the environment variables.
+// https://docs.aws.amazon.com/secretsmanager/latest/userguide/rotate-secrets_lambda-functions.html
+import {
+  DescribeSecretCommand,
+  GetRandomPasswordCommand,
+  GetSecretValueCommand,
+  PutSecretValueCommand,
+  SecretsManagerClient,
+  UpdateSecretVersionStageCommand,
+} from '@aws-sdk/client-secrets-manager';
+import { ECSClient, UpdateServiceCommand } from '@aws-sdk/client-ecs';
+import {
+  DescribeReplicationGroupsCommand,
+  ElastiCacheClient,
+  ModifyReplicationGroupCommand,
+} from '@aws-sdk/client-elasticache';
+
+const secretsManager = new SecretsManagerClient();
+const ecs = new ECSClient();
+const elastiCache = new ElastiCacheClient();
+
+const { CLUSTER_ARN, SERVICE_ARNS, PASSWORD_LENGTH, REPLICATION_GROUP_ID, BROKER_URL_SECRET_ARN, BROKER_URL_TEMPLATE } =
+  process.env;
+
+export const handler = async (event) => {
+  const { SecretId: secretId, ClientRequestToken: token, Step: step } = event;
+  console.log(`${step} for ${secretId}`);
+
+  const metadata = await secretsManager.send(new DescribeSecretCommand({ SecretId: secretId }));
+  const stages = metadata.VersionIdsToStages?.[token];
+  if (stages == null) {
+    throw new Error(`Secret version ${token} has no stage for rotation of secret ${secretId}.`);
+  }
+  if (stages.includes('AWSCURRENT')) {
+    console.log(`Secret version ${token} is already set as AWSCURRENT.`);
+    return;
+  }
+  if (!stages.includes('AWSPENDING')) {
+    throw new Error(`Secret version ${token} is not set as AWSPENDING for rotation of secret ${secretId}.`);
+  }
+
+  switch (step) {
+    case 'createSecret':
+      return createSecret(secretId, token);
+    case 'setSecret':
+      return setSecret(secretId, token);
+    case 'testSecret':
+      return testSecret();
+    case 'finishSecret':
+      return finishSecret(secretId, token, metadata.VersionIdsToStages);
+    default:
+      throw new Error(`Invalid step: ${step}`);
+  }
+};
+
+const getPendingValue = async (secretId, token) => {
+  const { SecretString } = await secretsManager.send(
+    new GetSecretValueCommand({ SecretId: secretId, VersionId: token, VersionStage: 'AWSPENDING' }),
+  );
+  return SecretString;
+};
+
+const createSecret = async (secretId, token) => {
+  try {
+    await getPendingValue(secretId, token);
+    console.log('The pending secret already exists.');
+    return;
+  } catch (e) {
+    if (e.name != 'ResourceNotFoundException') {
+      throw e;
+    }
+  }
+
+  const { RandomPassword } = await secretsManager.send(
+    new GetRandomPasswordCommand({ PasswordLength: Number(PASSWORD_LENGTH), ExcludePunctuation: true }),
+  );
+  await secretsManager.send(
+    new PutSecretValueCommand({
+      SecretId: secretId,
+      ClientRequestToken: token,
+      SecretString: RandomPassword,
+      VersionStages: ['AWSPENDING'],
+    }),
+  );
+};
+
+const setSecret = async (secretId, token) => {
+  if (!REPLICATION_GROUP_ID) {
+    // Dify containers read the keys only on startup. They are updated by redeploying services in finishSecret.
+    return;
+  }
+  const status = await getReplicationGroupStatus();
+  if (status != 'available') {
+    throw new Error(`Replication group ${REPLICATION_GROUP_ID} is ${status}. Retry later.`);
+  }
+  // ROTATE strategy keeps the current token valid, so running tasks can connect until they are replaced.
+  await elastiCache.send(
+    new ModifyReplicationGroupCommand({
+      ReplicationGroupId: REPLICATION_GROUP_ID,
+      AuthToken: await getPendingValue(secretId, token),
+      AuthTokenUpdateStrategy: 'ROTATE',
+      ApplyImmediately: true,
+    }),
+  );
+};
+
+const testSecret = async () => {
+  if (!REPLICATION_GROUP_ID) {
+    return;
+  }
+  // wait for the new auth token to be applied.
+  for (let i = 0; i < 60; i++) {
+    if ((await getReplicationGroupStatus()) == 'available') {
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10000));
+  }
+  throw new Error(`Replication group ${REPLICATION_GROUP_ID} did not become available.`);
+};
+
+const finishSecret = async (secretId, token, versionIdsToStages) => {
+  const currentVersion = Object.keys(versionIdsToStages).find((id) => versionIdsToStages[id].includes('AWSCURRENT'));
+  await secretsManager.send(
+    new UpdateSecretVersionStageCommand({
+      SecretId: secretId,
+      VersionStage: 'AWSCURRENT',
+      MoveToVersionId: token,
+      RemoveFromVersionId: currentVersion,
+    }),
+  );
+
+  if (BROKER_URL_SECRET_ARN) {
+    const { SecretString } = await secretsManager.send(new GetSecretValueCommand({ SecretId: secretId }));
+    await secretsManager.send(
+      new PutSecretValueCommand({
+        SecretId: BROKER_URL_SECRET_ARN,
+        SecretString: BROKER_URL_TEMPLATE.replace('{password}', SecretString),
+      }),
+    );
+  }
+
+  // replace the running tasks so that they get the new value.
+  for (const service of SERVICE_ARNS.split(',').filter((arn) => arn)) {
+    await ecs.send(new UpdateServiceCommand({ cluster: CLUSTER_ARN, service, forceNewDeployment: true }));
+  }
+};
+
+const getReplicationGroupStatus = async () => {
+  const { ReplicationGroups } = await elastiCache.send(
+    new DescribeReplicationGroupsCommand({ ReplicationGroupId: REPLICATION_GROUP_ID }),
+  );
+  return ReplicationGroups[0].Status;
+};
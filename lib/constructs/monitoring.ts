@@ -0,0 +1,251 @@
+import { Construct } from 'constructs';
+import { Annotations, Duration } from 'aws-cdk-lib';
+import {
+  Alarm,
+  ComparisonOperator,
+  Dashboard,
+  GraphWidget,
+  IMetric,
+  Metric,
+  Stats,
+  TextWidget,
+  TreatMissingData,
+} from 'aws-cdk-lib/aws-cloudwatch';
+import { SnsAction } from 'aws-cdk-lib/aws-cloudwatch-actions';
+import { FargateService } from 'aws-cdk-lib/aws-ecs';
+import { ApplicationTargetGroup, HttpCodeElb, HttpCodeTarget } from 'aws-cdk-lib/aws-elasticloadbalancingv2';
+import { SubscriptionProtocol, Topic } from 'aws-cdk-lib/aws-sns';
+import { EmailSubscription, UrlSubscription } from 'aws-cdk-lib/aws-sns-subscriptions';
+import { IAlb } from './alb';
+import { Postgres } from './postgres';
+import { Redis } from './redis';
+
+/**
+ * The default max_connections of Aurora PostgreSQL, LEAST({DBInstanceClassMemory/9531392}, 5000).
+ * Aurora Serverless v2 derives the memory from the maximum ACU, and each ACU has 2 GiB of memory.
+ * https://docs.aws.amazon.com/AmazonRDS/latest/AuroraUserGuide/AuroraPostgreSQL.Managing.html#AuroraPostgreSQL.Managing.MaxConnections
+ */
+const getAuroraMaxConnections = (maxCapacity: number) =>
+  Math.min(Math.floor((maxCapacity * 2 * 1024 ** 3) / 9531392), 5000);
+
+interface AlarmSubscriptionProps {
+  /**
+   * @default No email subscription.
+   */
+  alarmEmails?: string[];
+
+  /**
+   * @default No HTTPS subscription.
+   */
+  alarmHttpsEndpoints?: string[];
+}
+
+const period = Duration.minutes(5);
+
+const createAlarmTopic = (scope: Construct, props: AlarmSubscriptionProps) => {
+  const topic = new Topic(scope, 'AlarmTopic');
+  (props.alarmEmails ?? []).forEach((email) => topic.addSubscription(new EmailSubscription(email)));
+  (props.alarmHttpsEndpoints ?? []).forEach((url) =>
+    topic.addSubscription(new UrlSubscription(url, { protocol: SubscriptionProtocol.HTTPS })),
+  );
+  return topic;
+};
+
+const createAlarm = (
+  scope: Construct,
+  topic: Topic,
+  alarmId: string,
+  metric: IMetric,
+  threshold: number,
+  alarmDescription: string,
+) => {
+  const alarm = new Alarm(scope, alarmId, {
+    metric,
+    threshold,
+    alarmDescription,
+    comparisonOperator: ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+    evaluationPeriods: 3,
+    datapointsToAlarm: 2,
+    treatMissingData: TreatMissingData.NOT_BREACHING,
+  });
+  const action = new SnsAction(topic);
+  alarm.addAlarmAction(action);
+  alarm.addOkAction(action);
+  return alarm;
+};
+
+/**
+ * CloudFront publishes metrics only to us-east-1 with the Region dimension of Global.
+ * https://docs.aws.amazon.com/AmazonCloudFront/latest/DeveloperGuide/programming-cloudwatch-metrics.html
+ */
+const cloudFrontMetric = (distributionId: string, metricName: '5xxErrorRate' | '4xxErrorRate') =>
+  new Metric({
+    namespace: 'AWS/CloudFront',
+    metricName,
+    dimensionsMap: { DistributionId: distributionId, Region: 'Global' },
+    region: 'us-east-1',
+    statistic: Stats.AVERAGE,
+    period,
+  });
+
+export interface MonitoringProps extends AlarmSubscriptionProps {
+  alb: IAlb;
+
+  /**
+   * The target groups of the ALB keyed by a display name.
+   */
+  targetGroups: { [name: string]: ApplicationTargetGroup };
+
+  /**
+   * The ECS services keyed by a display name.
+   */
+  services: { [name: string]: FargateService };
+
+  postgres: Postgres;
+  redis: Redis;
+
+  /**
+   * The maximum ACU of the Aurora cluster, which determines the connection limit.
+   * @default No alarm for the number of connections.
+   */
+  auroraMaxCapacity?: number;
+}
+
+/**
+ * A CloudWatch dashboard and alarms for the Dify resources. Alarms are notified to {@link alarmTopic}.
+ */
+export class Monitoring extends Construct {
+  public readonly alarmTopic: Topic;
+
+  constructor(scope: Construct, id: string, props: MonitoringProps) {
+    super(scope, id);
+
+    const { alb, targetGroups, services, postgres, redis } = props;
+
+    const topic = createAlarmTopic(this, props);
+    const addAlarm = (alarmId: string, metric: IMetric, threshold: number, alarmDescription: string) =>
+      createAlarm(this, topic, alarmId, metric, threshold, alarmDescription);
+
+    const dashboard = new Dashboard(this, 'Dashboard', {
+      defaultInterval: Duration.hours(3),
+    });
+
+    // ALB
+    const lb = alb.loadBalancer;
+    const elb5xx = lb.metrics.httpCodeElb(HttpCodeElb.ELB_5XX_COUNT, { period });
+    const target5xx = lb.metrics.httpCodeTarget(HttpCodeTarget.TARGET_5XX_COUNT, { period });
+    const latency = lb.metrics.targetResponseTime({ period, statistic: Stats.percentile(95) });
+    addAlarm('Alb5xxAlarm', elb5xx, 10, 'The ALB returns 5xx errors.');
+    addAlarm('AlbTarget5xxAlarm', target5xx, 10, 'The Dify containers return 5xx errors.');
+    // LLM requests can take long, so we use a loose threshold.
+    addAlarm('AlbLatencyAlarm', latency, 30, 'p95 of the ALB target response time is 30 seconds or longer.');
+    dashboard.addWidgets(
+      new TextWidget({ markdown: '## Load balancer', width: 24, height: 1 }),
+      new GraphWidget({
+        title: 'ALB requests and 5xx errors',
+        left: [lb.metrics.requestCount({ period })],
+        right: [elb5xx, target5xx],
+        width: 12,
+      }),
+      new GraphWidget({ title: 'ALB target response time (p95)', left: [latency], width: 12 }),
+    );
+
+    // Target groups
+    dashboard.addWidgets(
+      ...Object.entries(targetGroups).map(([name, group]) => {
+        const unhealthy = group.metrics.unhealthyHostCount({ period, statistic: Stats.MAXIMUM });
+        addAlarm(`${name}UnhealthyHostAlarm`, unhealthy, 1, `${name} target group has unhealthy targets.`);
+        return new GraphWidget({
+          title: `${name} target health`,
+          left: [group.metrics.healthyHostCount({ period, statistic: Stats.MINIMUM }), unhealthy],
+          width: 8,
+        });
+      }),
+    );
+
+    // ECS
+    dashboard.addWidgets(new TextWidget({ markdown: '## ECS services', width: 24, height: 1 }));
+    dashboard.addWidgets(
+      ...Object.entries(services).map(([name, service]) => {
+        const cpu = service.metricCpuUtilization({ period });
+        const memory = service.metricMemoryUtilization({ period });
+        addAlarm(`${name}CpuAlarm`, cpu, 90, `CPU utilization of ${name} service is 90% or higher.`);
+        addAlarm(`${name}MemoryAlarm`, memory, 90, `Memory utilization of ${name} service is 90% or higher.`);
+        return new GraphWidget({ title: `${name} service utilization (%)`, left: [cpu, memory], width: 8 });
+      }),
+    );
+
+    // Aurora
+    const acu = postgres.cluster.metric('ACUUtilization', { period });
+    const connections = postgres.cluster.metricDatabaseConnections({ period, statistic: Stats.MAXIMUM });
+    addAlarm('AuroraAcuAlarm', acu, 90, 'Aurora Serverless capacity is 90% or more of the maximum ACU.');
+    if (props.auroraMaxCapacity != null) {
+      const maxConnections = getAuroraMaxConnections(props.auroraMaxCapacity);
+      addAlarm(
+        'AuroraConnectionsAlarm',
+        connections,
+        Math.floor(maxConnections * 0.8),
+        `The number of Aurora database connections is 80% or more of the limit (${maxConnections}).`,
+      );
+    } else {
+      Annotations.of(this).addWarningV2(
+        'Dify:noAuroraConnectionsAlarm',
+        'The alarm for the number of Aurora database connections is not created, because the maximum ACU of the existing Aurora cluster is unknown. Monitor the connections of the cluster on your side.',
+      );
+    }
+
+    // ElastiCache
+    const evictions = redis.metric('Evictions', { period, statistic: Stats.SUM });
+    const memory = redis.serverless
+      ? redis.metric('BytesUsedForCache', { period, statistic: Stats.MAXIMUM })
+      : redis.metric('DatabaseMemoryUsagePercentage', { period, statistic: Stats.MAXIMUM });
+    addAlarm('RedisEvictionsAlarm', evictions, 1, 'ElastiCache evicts keys due to memory pressure.');
+    if (!redis.serverless) {
+      // serverless cache scales memory automatically.
+      addAlarm('RedisMemoryAlarm', memory, 80, 'ElastiCache memory usage is 80% or higher.');
+    }
+
+    dashboard.addWidgets(
+      new TextWidget({ markdown: '## Data stores', width: 24, height: 1 }),
+      new GraphWidget({ title: 'Aurora ACU utilization (%)', left: [acu], width: 6 }),
+      new GraphWidget({ title: 'Aurora connections', left: [connections], width: 6 }),
+      new GraphWidget({ title: 'ElastiCache memory', left: [memory], width: 6 }),
+      new GraphWidget({ title: 'ElastiCache evictions', left: [evictions], width: 6 }),
+    );
+
+    // CloudFront
+    // The alarm is created by CloudFrontAlarms in us-east-1, because an alarm cannot refer to a metric in another region.
+    if (alb.distribution) {
+      const errorRate5xx = cloudFrontMetric(alb.distribution.distributionId, '5xxErrorRate');
+      const errorRate4xx = cloudFrontMetric(alb.distribution.distributionId, '4xxErrorRate');
+      dashboard.addWidgets(
+        new TextWidget({ markdown: '## CloudFront', width: 24, height: 1 }),
+        new GraphWidget({ title: 'CloudFront error rates (%)', left: [errorRate5xx, errorRate4xx], width: 12 }),
+      );
+    }
+
+    this.alarmTopic = topic;
+  }
+}
+
+export interface CloudFrontAlarmsProps extends AlarmSubscriptionProps {
+  distributionId: string;
+}
+
+/**
+ * Alarms for a CloudFront distribution. They must be in us-east-1 where CloudFront publishes metrics,
+ * so they notify their own topic in that region.
+ */
+export class CloudFrontAlarms extends Construct {
+  public readonly alarmTopic: Topic;
+
+  constructor(scope: Construct, id: string, props: CloudFrontAlarmsProps) {
+    super(scope, id);
+
+    const topic = createAlarmTopic(this, props);
+    const errorRate5xx = cloudFrontMetric(props.distributionId, '5xxErrorRate');
+    createAlarm(this, topic, 'CloudFront5xxAlarm', errorRate5xx, 5, 'CloudFront 5xx error rate is 5% or higher.');
+
+    this.alarmTopic = topic;
+  }
+}
@@ -0,0 +1,137 @@
+import { Construct } from 'constructs';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import { Fn, Lazy, Names, RemovalPolicy, Stack } from 'aws-cdk-lib';
+import {
+  CfnAccessPolicy,
+  CfnCollection,
+  CfnSecurityPolicy,
+  CfnVpcEndpoint,
+} from 'aws-cdk-lib/aws-opensearchserverless';
+import { IRole, PolicyStatement } from 'aws-cdk-lib/aws-iam';
+
+export interface OpenSearchServerlessProps {
+  vpc: ec2.IVpc;
+
+  /**
+   * If true, the collection has standby replicas in another AZ.
+   * @default true
+   */
+  standbyReplicas?: boolean;
+
+  /**
+   * @default RemovalPolicy.DESTROY
+   */
+  removalPolicy?: RemovalPolicy;
+}
+
+/**
+ * An OpenSearch Serverless vector search collection accessible only from the VPC.
+ */
+export class OpenSearchServerless extends Construct implements ec2.IConnectable {
+  public readonly connections: ec2.Connections;
+  /**
+   * The host name of the collection endpoint without the scheme.
+   */
+  public readonly endpoint: string;
+  public readonly port: number = 443;
+
+  private readonly collection: CfnCollection;
+  private readonly principals: string[] = [];
+
+  constructor(scope: Construct, id: string, props: OpenSearchServerlessProps) {
+    super(scope, id);
+
+    const { vpc, standbyReplicas = true } = props;
+    // The names must be unique in a region, 3-32 characters long and lower case.
+    const name = Names.uniqueResourceName(this, { maxLength: 32, separator: '-' }).toLowerCase();
+
+    const securityGroup = new ec2.SecurityGroup(this, 'SecurityGroup', {
+      vpc,
+    });
+
+    const vpcEndpoint = new CfnVpcEndpoint(this, 'VpcEndpoint', {
+      name,
+      vpcId: vpc.vpcId,
+      subnetIds: vpc.privateSubnets.concat(vpc.isolatedSubnets).map(({ subnetId }) => subnetId),
+      securityGroupIds: [securityGroup.securityGroupId],
+    });
+
+    const encryptionPolicy = new CfnSecurityPolicy(this, 'EncryptionPolicy', {
+      name,
+      type: 'encryption',
+      policy: JSON.stringify({
+        Rules: [{ ResourceType: 'collection', Resource: [`collection/${name}`] }],
+        AWSOwnedKey: true,
+      }),
+    });
+
+    const networkPolicy = new CfnSecurityPolicy(this, 'NetworkPolicy', {
+      name,
+      type: 'network',
+      policy: Stack.of(this).toJsonString([
+        {
+          Rules: [{ ResourceType: 'collection', Resource: [`collection/${name}`] }],
+          AllowFromPublic: false,
+          SourceVPCEs: [vpcEndpoint.attrId],
+        },
+      ]),
+    });
+
+    const collection = new CfnCollection(this, 'Collection', {
+      name,
+      type: 'VECTORSEARCH',
+      standbyReplicas: standbyReplicas ? 'ENABLED' : 'DISABLED',
+      description: 'Dify vector store',
+    });
+    collection.applyRemovalPolicy(props.removalPolicy ?? RemovalPolicy.DESTROY);
+    collection.addDependency(encryptionPolicy);
+    collection.addDependency(networkPolicy);
+
+    new CfnAccessPolicy(this, 'DataAccessPolicy', {
+      name,
+      type: 'data',
+      // principals are added later by grantReadWrite method.
+      policy: Lazy.string({
+        produce: () =>
+          Stack.of(this).toJsonString([
+            {
+              Rules: [
+                {
+                  ResourceType: 'collection',
+                  Resource: [`collection/${name}`],
+                  Permission: ['aoss:DescribeCollectionItems'],
+                },
+                {
+                  ResourceType: 'index',
+                  Resource: [`index/${name}/*`],
+                  Permission: [
+                    'aoss:CreateIndex',
+                    'aoss:DeleteIndex',
+                    'aoss:UpdateIndex',
+                    'aoss:DescribeIndex',
+                    'aoss:ReadDocument',
+                    'aoss:WriteDocument',
+                  ],
+                },
+              ],
+              Principal: this.principals,
+            },
+          ]),
+      }),
+    });
+
+    this.collection = collection;
+    this.endpoint = Fn.select(1, Fn.split('https://', collection.attrCollectionEndpoint));
+    this.connections = new ec2.Connections({ securityGroups: [securityGroup], defaultPort: ec2.Port.tcp(this.port) });
+  }
+
+  public grantReadWrite(role: IRole) {
+    this.principals.push(role.roleArn);
+    role.addToPrincipalPolicy(
+      new PolicyStatement({
+        actions: ['aoss:APIAccessAll'],
+        resources: [this.collection.attrArn],
+      }),
+    );
+  }
+}
@@ -3,10 +3,11 @@ import * as rds from 'aws-cdk-lib/aws-rds';
 import * as ec2 from 'aws-cdk-lib/aws-ec2';
 import { Connections, IConnectable, IVpc } from 'aws-cdk-lib/aws-ec2';
 import { CfnOutput, CfnResource, Duration, RemovalPolicy, Stack } from 'aws-cdk-lib';
-import { ISecret } from 'aws-cdk-lib/aws-secretsmanager';
+import { ISecret, Secret } from 'aws-cdk-lib/aws-secretsmanager';
 import { AwsCustomResource, AwsCustomResourcePolicy, PhysicalResourceId } from 'aws-cdk-lib/custom-resources';
 import { PolicyStatement } from 'aws-cdk-lib/aws-iam';
 import { TimeSleep } from 'cdk-time-sleep';
+import { EnvironmentProps } from '../environment-props';
 
 export interface PostgresProps {
   vpc: IVpc;
@@ -21,12 +22,52 @@ export interface PostgresProps {
    * If true, the minimum ACU for the Aurora Cluster is set to zero.
    */
   scalesToZero: boolean;
+
+  /**
+   * @default 0.5, or 0 when {@link scalesToZero} is true
+   */
+  minCapacity?: number;
+
+  /**
+   * @default 2
+   */
+  maxCapacity?: number;
+
+  /**
+   * @default 0
+   */
+  readerCount?: number;
+
+  /**
+   * The full version string of Aurora PostgreSQL engine.
+   * @default '15.7'
+   */
+  engineVersion?: string;
+
+  /**
+   * The removal policy of the cluster. SNAPSHOT and RETAIN also enable deletion protection and automated backups.
+   * The credentials secret is retained unless it is DESTROY.
+   * @default RemovalPolicy.DESTROY
+   */
+  removalPolicy?: RemovalPolicy;
+
+  /**
+   * If set, the existing Aurora PostgreSQL cluster is imported instead of creating a new one.
+   * @default create a new cluster
+   */
+  existingCluster?: EnvironmentProps['existingAuroraCluster'];
 }
 
 export class Postgres extends Construct implements IConnectable {
   public readonly connections: Connections;
-  public readonly cluster: rds.DatabaseCluster;
+  public readonly cluster: rds.IDatabaseCluster;
   public readonly secret: ISecret;
+  public readonly hostname: string;
+  public readonly port: string;
+  /**
+   * The maximum ACU of the writer. It is undefined for an existing cluster.
+   */
+  public readonly maxCapacity?: number;
   public readonly databaseName = 'main';
   public readonly pgVectorDatabaseName = 'pgvector';
 
@@ -36,24 +77,72 @@ export class Postgres extends Construct implements IConnectable {
   constructor(scope: Construct, id: string, props: PostgresProps) {
     super(scope, id);
 
-    const { vpc } = props;
+    const {
+      vpc,
+      removalPolicy = RemovalPolicy.DESTROY,
+      maxCapacity = 2.0,
+      readerCount = 0,
+      engineVersion = '15.7',
+    } = props;
+    const minCapacity = props.minCapacity ?? (props.scalesToZero ? 0 : 0.5);
+    const protect = removalPolicy != RemovalPolicy.DESTROY;
+
+    if (props.existingCluster) {
+      const { clusterIdentifier, endpoint, port = 5432, secretArn, securityGroupIds } = props.existingCluster;
+      const secret = Secret.fromSecretCompleteArn(this, 'Secret', secretArn);
+      const cluster = rds.DatabaseCluster.fromDatabaseClusterAttributes(this, 'Cluster', {
+        clusterIdentifier,
+        clusterEndpointAddress: endpoint,
+        port,
+        secret,
+        securityGroups: securityGroupIds.map((id) => ec2.SecurityGroup.fromSecurityGroupId(this, id, id)),
+        // Data API must be enabled in the cluster to run the bootstrap queries below.
+        dataApiEnabled: true,
+      });
+
+      this.connections = cluster.connections;
+      this.cluster = cluster;
+      this.secret = secret;
+      this.hostname = endpoint;
+      this.port = port.toString();
+
+      // The databases might already exist in an existing cluster, so we ignore errors from CREATE DATABASE.
+      this.runQuery(`CREATE DATABASE ${this.databaseName};`, undefined, true);
+      this.runQuery(`CREATE DATABASE ${this.pgVectorDatabaseName};`, undefined, true);
+      this.runQuery('CREATE EXTENSION IF NOT EXISTS vector;', this.pgVectorDatabaseName);
+      return;
+    }
+
+    // the version and its support for scaling to zero are validated by validateEnvironmentProps.
     const engine = rds.DatabaseClusterEngine.auroraPostgres({
-      version: rds.AuroraPostgresEngineVersion.VER_15_7,
+      version: rds.AuroraPostgresEngineVersion.of(engineVersion, engineVersion.split('.')[0]),
     });
+    const subnets = vpc.selectSubnets({ subnets: vpc.privateSubnets.concat(vpc.isolatedSubnets) });
 
     const cluster = new rds.DatabaseCluster(this, 'Cluster', {
       engine,
       vpc,
-      serverlessV2MinCapacity: props.scalesToZero ? 0 : 0.5,
-      serverlessV2MaxCapacity: 2.0,
+      serverlessV2MinCapacity: minCapacity,
+      serverlessV2MaxCapacity: maxCapacity,
       writer: rds.ClusterInstance.serverlessV2(this.writerId, {
         autoMinorVersionUpgrade: true,
         publiclyAccessible: false,
       }),
+      readers: Array.from({ length: readerCount }, (_, i) =>
+        rds.ClusterInstance.serverlessV2(`Reader${i + 1}`, {
+          autoMinorVersionUpgrade: true,
+          publiclyAccessible: false,
+          // the first reader is the failover target, so it must have the same capacity as the writer.
+          scaleWithWriter: i == 0,
+          availabilityZone: subnets.availabilityZones[(i + 1) % subnets.availabilityZones.length],
+        }),
+      ),
       defaultDatabaseName: this.databaseName,
       enableDataApi: true,
       storageEncrypted: true,
-      removalPolicy: RemovalPolicy.DESTROY,
+      removalPolicy,
+      deletionProtection: protect,
+      backup: protect ? { retention: Duration.days(7) } : undefined,
       parameterGroup: new rds.ParameterGroup(this, 'ParameterGroup', {
         engine,
         parameters: {
@@ -61,7 +150,7 @@ export class Postgres extends Construct implements IConnectable {
           idle_session_timeout: '60000',
         },
       }),
-      vpcSubnets: vpc.selectSubnets({ subnets: vpc.privateSubnets.concat(vpc.isolatedSubnets) }),
+      vpcSubnets: subnets,
     });
 
     if (props.createBastion) {
@@ -93,15 +182,27 @@ export class Postgres extends Construct implements IConnectable {
       });
     }
 
+    // A snapshot is useless without the credentials, so the secret is retained unless the cluster is destroyed.
+    // cluster.secret is a SecretTargetAttachment, so we find the secret itself.
+    (cluster.node.findChild('Secret') as rds.DatabaseSecret).applyRemovalPolicy(
+      protect ? RemovalPolicy.RETAIN : RemovalPolicy.DESTROY,
+    );
+
     this.connections = cluster.connections;
     this.cluster = cluster;
     this.secret = cluster.secret!;
+    this.hostname = cluster.clusterEndpoint.hostname;
+    this.port = cluster.clusterEndpoint.port.toString();
+    this.maxCapacity = maxCapacity;
 
     this.runQuery(`CREATE DATABASE ${this.pgVectorDatabaseName};`, undefined);
     this.runQuery('CREATE EXTENSION IF NOT EXISTS vector;', this.pgVectorDatabaseName);
   }
 
-  private runQuery(sql: string, database: string | undefined) {
+  /**
+   * Runs a SQL statement through Data API on deployment. Statements run serially in the order of calls.
+   */
+  public runQuery(sql: string, database: string | undefined, ignoreDatabaseError = false) {
     const cluster = this.cluster;
     const query = new AwsCustomResource(this, `Query${this.queries.length}`, {
       onUpdate: {
@@ -110,20 +211,21 @@ export class Postgres extends Construct implements IConnectable {
         action: 'ExecuteStatement',
         parameters: {
           resourceArn: cluster.clusterArn,
-          secretArn: cluster.secret!.secretArn,
+          secretArn: this.secret.secretArn,
           database: database,
           sql: sql,
         },
         physicalResourceId: PhysicalResourceId.of(cluster.clusterArn),
+        ignoreErrorCodesMatching: ignoreDatabaseError ? 'DatabaseErrorException' : undefined,
       },
       policy: AwsCustomResourcePolicy.fromSdkCalls({ resources: [cluster.clusterArn] }),
     });
-    cluster.secret!.grantRead(query);
+    this.secret.grantRead(query);
     cluster.grantDataApiAccess(query);
     if (this.queries.length > 0) {
       // We assume each query must be called serially, not in parallel.
       query.node.defaultChild!.node.addDependency(this.queries.at(-1)!.node.defaultChild!);
-    } else {
+    } else if (this.cluster instanceof rds.DatabaseCluster) {
       // When the Data API is called immediately after the writer creation, we got the below error:
       // > Message returned: HttpEndpoint is not enabled for resource ...
       // So we wait a minute after the creation before the first Data API call.
@@ -138,3 +240,13 @@ export class Postgres extends Construct implements IConnectable {
     return query;
   }
 }
+
+// https://docs.aws.amazon.com/AmazonRDS/latest/AuroraUserGuide/aurora-serverless-v2-auto-pause.html
+export const supportsAutoPause = (major: number, minor: number) => {
+  const minimumMinorVersions: { [major: number]: number } = { 13: 15, 14: 12, 15: 7, 16: 3 };
+  if (major > 16) {
+    return true;
+  }
+  const minimum = minimumMinorVersions[major];
+  return minimum != null && minor >= minimum;
+};
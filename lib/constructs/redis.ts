@@ -1,13 +1,52 @@
 import { Construct } from 'constructs';
 import * as ec2 from 'aws-cdk-lib/aws-ec2';
-import { CfnReplicationGroup, CfnSubnetGroup } from 'aws-cdk-lib/aws-elasticache';
+import {
+  CfnReplicationGroup,
+  CfnServerlessCache,
+  CfnSubnetGroup,
+  CfnUser,
+  CfnUserGroup,
+} from 'aws-cdk-lib/aws-elasticache';
 import { SecurityGroup } from 'aws-cdk-lib/aws-ec2';
 import { Secret } from 'aws-cdk-lib/aws-secretsmanager';
-import { StringParameter } from 'aws-cdk-lib/aws-ssm';
+import { ArnFormat, Fn, Names, RemovalPolicy, SecretValue, Stack, aws_ecs as ecs } from 'aws-cdk-lib';
+import { PolicyStatement } from 'aws-cdk-lib/aws-iam';
+import { SecretRotation } from './secret-rotation';
+import { DimensionsMap, Metric, MetricOptions } from 'aws-cdk-lib/aws-cloudwatch';
 
 export interface RedisProps {
   vpc: ec2.IVpc;
   multiAz: boolean;
+
+  /**
+   * If true, ElastiCache Serverless for Valkey is used instead of a replication group.
+   * {@link nodeType}, {@link numNodeGroups} and {@link replicasPerNodeGroup} are ignored.
+   * @default false
+   */
+  serverless?: boolean;
+
+  /**
+   * @default 'cache.t4g.micro'
+   */
+  nodeType?: string;
+
+  /**
+   * The number of shards. When it is larger than 1, the replication group is created with cluster mode enabled.
+   * @default 1
+   */
+  numNodeGroups?: number;
+
+  /**
+   * The number of replicas per shard.
+   * @default 1 when {@link multiAz} is true, 0 otherwise
+   */
+  replicasPerNodeGroup?: number;
+
+  /**
+   * The removal policy of the replication group. The auth token secret is retained unless it is DESTROY.
+   * @default RemovalPolicy.DESTROY
+   */
+  removalPolicy?: RemovalPolicy;
 }
 
 export class Redis extends Construct implements ec2.IConnectable {
@@ -15,17 +54,30 @@ export class Redis extends Construct implements ec2.IConnectable {
   public connections: ec2.Connections;
   public readonly secret: Secret;
   public readonly port: number = 6379;
-  public readonly brokerUrl: StringParameter;
+  /**
+   * The Celery broker URL including the auth token.
+   */
+  public readonly brokerUrl: Secret;
+  public readonly serverless: boolean;
+
+  private readonly metricDimensions: DimensionsMap;
+  private readonly passwordLength = 30;
+  private readonly replicationGroupId?: string;
+  private readonly brokerUrlTemplate: string;
 
   constructor(scope: Construct, id: string, props: RedisProps) {
     super(scope, id);
 
-    const { vpc, multiAz } = props;
-
-    const subnetGroup = new CfnSubnetGroup(this, 'SubnetGroup', {
-      subnetIds: vpc.privateSubnets.concat(vpc.isolatedSubnets).map(({ subnetId }) => subnetId),
-      description: 'Dify ElastiCache subnets',
-    });
+    const {
+      vpc,
+      multiAz,
+      removalPolicy = RemovalPolicy.DESTROY,
+      serverless = false,
+      nodeType = 'cache.t4g.micro',
+      numNodeGroups = 1,
+      replicasPerNodeGroup = multiAz ? 1 : 0,
+    } = props;
+    const subnetIds = vpc.privateSubnets.concat(vpc.isolatedSubnets).map(({ subnetId }) => subnetId);
 
     const securityGroup = new SecurityGroup(this, 'SecurityGroup', {
       vpc,
@@ -33,36 +85,157 @@ export class Redis extends Construct implements ec2.IConnectable {
 
     const secret = new Secret(this, 'AuthToken', {
       generateSecretString: {
-        passwordLength: 30,
+        passwordLength: this.passwordLength,
         excludePunctuation: true,
       },
     });
 
-    const redis = new CfnReplicationGroup(this, 'Resource', {
-      engine: 'Valkey',
-      cacheNodeType: 'cache.t4g.micro',
-      engineVersion: '8.0',
-      cacheParameterGroupName: 'default.valkey8',
-      port: this.port,
-      replicasPerNodeGroup: multiAz ? 1 : 0,
-      numNodeGroups: 1,
-      replicationGroupDescription: 'Dify cache/queue cluster',
-      cacheSubnetGroupName: subnetGroup.ref,
-      automaticFailoverEnabled: multiAz,
-      multiAzEnabled: multiAz,
-      securityGroupIds: [securityGroup.securityGroupId],
-      transitEncryptionEnabled: true,
-      atRestEncryptionEnabled: true,
-      authToken: secret.secretValue.unsafeUnwrap(),
-    });
+    // In cluster mode (including serverless), only the database 0 is available.
+    let brokerDb = 1;
+    if (serverless) {
+      // Serverless cache does not support AUTH token, so we create the default user with the password instead.
+      const name = Names.uniqueResourceName(this, { maxLength: 40, separator: '-' }).toLowerCase();
+      const user = new CfnUser(this, 'DefaultUser', {
+        engine: 'valkey',
+        userId: name,
+        userName: 'default',
+        accessString: 'on ~* &* +@all',
+        authenticationMode: {
+          Type: 'password',
+          Passwords: [secret.secretValue.unsafeUnwrap()],
+        },
+      });
+      const userGroup = new CfnUserGroup(this, 'UserGroup', {
+        engine: 'valkey',
+        userGroupId: name,
+        userIds: [user.userId],
+      });
+      userGroup.addDependency(user);
+
+      const cache = new CfnServerlessCache(this, 'Serverless', {
+        engine: 'valkey',
+        majorEngineVersion: '8',
+        serverlessCacheName: name,
+        description: 'Dify cache/queue cluster',
+        subnetIds,
+        securityGroupIds: [securityGroup.securityGroupId],
+        userGroupId: userGroup.userGroupId,
+        // CloudFormation does not support the Snapshot deletion policy for a serverless cache.
+        finalSnapshotName: removalPolicy == RemovalPolicy.SNAPSHOT ? `${name}-final` : undefined,
+      });
+      cache.addDependency(userGroup);
+      cache.applyRemovalPolicy(removalPolicy == RemovalPolicy.RETAIN ? RemovalPolicy.RETAIN : RemovalPolicy.DESTROY);
 
-    this.endpoint = redis.attrPrimaryEndPointAddress;
+      this.endpoint = cache.attrEndpointAddress;
+      this.metricDimensions = { clusterId: name };
+      brokerDb = 0;
+    } else {
+      const clusterMode = numNodeGroups > 1;
 
-    this.brokerUrl = new StringParameter(this, 'BrokerUrl', {
-      stringValue: `rediss://:${secret.secretValue.unsafeUnwrap()}@${this.endpoint}:${this.port}/1`,
+      const subnetGroup = new CfnSubnetGroup(this, 'SubnetGroup', {
+        subnetIds,
+        description: 'Dify ElastiCache subnets',
+      });
+
+      const redis = new CfnReplicationGroup(this, 'Resource', {
+        engine: 'Valkey',
+        cacheNodeType: nodeType,
+        engineVersion: '8.0',
+        cacheParameterGroupName: clusterMode ? 'default.valkey8.cluster.on' : 'default.valkey8',
+        port: this.port,
+        replicasPerNodeGroup,
+        numNodeGroups,
+        replicationGroupDescription: 'Dify cache/queue cluster',
+        cacheSubnetGroupName: subnetGroup.ref,
+        // cluster mode requires automatic failover
+        automaticFailoverEnabled: multiAz || clusterMode,
+        multiAzEnabled: multiAz,
+        securityGroupIds: [securityGroup.securityGroupId],
+        transitEncryptionEnabled: true,
+        atRestEncryptionEnabled: true,
+        // this is a dynamic reference resolved by CloudFormation, so the template does not contain the token itself.
+        authToken: secret.secretValue.unsafeUnwrap(),
+      });
+      redis.applyRemovalPolicy(removalPolicy);
+
+      if (removalPolicy == RemovalPolicy.RETAIN) {
+        // the resources in use by the retained replication group cannot be deleted.
+        subnetGroup.applyRemovalPolicy(RemovalPolicy.RETAIN);
+      }
+
+      this.endpoint = clusterMode ? redis.attrConfigurationEndPointAddress : redis.attrPrimaryEndPointAddress;
+      // host level metrics are only available per node. We use the first node of the first shard.
+      this.metricDimensions = {
+        CacheClusterId: Fn.join('-', [redis.ref, clusterMode ? '0001-001' : '001']),
+      };
+      brokerDb = clusterMode ? 0 : 1;
+      this.replicationGroupId = redis.ref;
+    }
+
+    secret.applyRemovalPolicy(removalPolicy == RemovalPolicy.DESTROY ? RemovalPolicy.DESTROY : RemovalPolicy.RETAIN);
+    if (removalPolicy == RemovalPolicy.RETAIN) {
+      securityGroup.applyRemovalPolicy(RemovalPolicy.RETAIN);
+    }
+
+    this.brokerUrlTemplate = `rediss://:{password}@${this.endpoint}:${this.port}/${brokerDb}`;
+    this.brokerUrl = new Secret(this, 'BrokerUrl', {
+      // the auth token is embedded as a dynamic reference, which CloudFormation resolves on deployment.
+      secretStringValue: SecretValue.unsafePlainText(
+        this.brokerUrlTemplate.replace('{password}', secret.secretValue.unsafeUnwrap()),
+      ),
+      removalPolicy: removalPolicy == RemovalPolicy.DESTROY ? RemovalPolicy.DESTROY : RemovalPolicy.RETAIN,
     });
 
     this.connections = new ec2.Connections({ securityGroups: [securityGroup], defaultPort: ec2.Port.tcp(this.port) });
     this.secret = secret;
+    this.serverless = serverless;
+  }
+
+  /**
+   * Rotates the auth token periodically with ROTATE strategy of ElastiCache, which keeps the current token valid
+   * until the next rotation. The broker URL is updated accordingly, and the services are redeployed.
+   */
+  public addRotationSchedule(rotationDays: number, cluster: ecs.ICluster, services: ecs.FargateService[]) {
+    const rotation = new SecretRotation(this, 'AuthTokenRotation', {
+      secret: this.secret,
+      passwordLength: this.passwordLength,
+      rotationDays,
+      cluster,
+      services,
+      replicationGroupId: this.replicationGroupId,
+      brokerUrl: { secret: this.brokerUrl, template: this.brokerUrlTemplate },
+    });
+    rotation.handler.addToRolePolicy(
+      new PolicyStatement({
+        actions: ['elasticache:ModifyReplicationGroup', 'elasticache:DescribeReplicationGroups'],
+        resources: [
+          Stack.of(this).formatArn({
+            service: 'elasticache',
+            resource: 'replicationgroup',
+            resourceName: this.replicationGroupId,
+            arnFormat: ArnFormat.COLON_RESOURCE_NAME,
+          }),
+          Stack.of(this).formatArn({
+            service: 'elasticache',
+            resource: 'cluster',
+            resourceName: `${this.replicationGroupId}-*`,
+            arnFormat: ArnFormat.COLON_RESOURCE_NAME,
+          }),
+        ],
+      }),
+    );
+  }
+
+  /**
+   * Returns a metric of the cache. Note that available metric names differ between serverless and node-based caches.
+   * https://docs.aws.amazon.com/AmazonElastiCache/latest/dg/CacheMetrics.html
+   */
+  public metric(metricName: string, props?: MetricOptions) {
+    return new Metric({
+      namespace: 'AWS/ElastiCache',
+      metricName,
+      dimensionsMap: this.metricDimensions,
+      ...props,
+    });
   }
 }
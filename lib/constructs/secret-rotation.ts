@@ -0,0 +1,86 @@
+import { Construct } from 'constructs';
+import { Duration, aws_ecs as ecs } from 'aws-cdk-lib';
+import { Code, Function, Runtime } from 'aws-cdk-lib/aws-lambda';
+import { PolicyStatement } from 'aws-cdk-lib/aws-iam';
+import { ISecret } from 'aws-cdk-lib/aws-secretsmanager';
+import { join } from 'path';
+
+export interface SecretRotationProps {
+  /**
+   * A secret with a random string value.
+   */
+  secret: ISecret;
+
+  /**
+   * The length of the generated value. It should match the generateSecretString of the secret.
+   */
+  passwordLength: number;
+
+  rotationDays: number;
+
+  cluster: ecs.ICluster;
+
+  /**
+   * ECS services that read the secret. They are redeployed after the rotation so that new tasks get the new value.
+   */
+  services: ecs.FargateService[];
+
+  /**
+   * If set, the value is also set as the auth token of the ElastiCache replication group.
+   * @default not an ElastiCache auth token
+   */
+  replicationGroupId?: string;
+
+  /**
+   * If set, the secret is updated with the template after the rotation. `{password}` in the template is replaced with the new value.
+   * @default no secret is updated
+   */
+  brokerUrl?: { secret: ISecret; template: string };
+}
+
+/**
+ * Rotates a random key periodically and redeploys the ECS services that use it.
+ * It optionally updates an ElastiCache auth token and the broker URL including the token.
+ */
+export class SecretRotation extends Construct {
+  public readonly handler: Function;
+
+  constructor(scope: Construct, id: string, props: SecretRotationProps) {
+    super(scope, id);
+
+    const { secret, cluster, services } = props;
+
+    const handler = new Function(this, 'Handler', {
+      runtime: Runtime.NODEJS_22_X,
+      handler: 'index.handler',
+      code: Code.fromAsset(join(__dirname, 'lambda', 'secret-rotation')),
+      timeout: Duration.minutes(15),
+      environment: {
+        CLUSTER_ARN: cluster.clusterArn,
+        SERVICE_ARNS: services.map((service) => service.serviceArn).join(','),
+        PASSWORD_LENGTH: props.passwordLength.toString(),
+        ...(props.replicationGroupId ? { REPLICATION_GROUP_ID: props.replicationGroupId } : {}),
+        ...(props.brokerUrl
+          ? { BROKER_URL_SECRET_ARN: props.brokerUrl.secret.secretArn, BROKER_URL_TEMPLATE: props.brokerUrl.template }
+          : {}),
+      },
+    });
+    handler.addToRolePolicy(
+      new PolicyStatement({
+        actions: ['ecs:UpdateService'],
+        resources: services.map((service) => service.serviceArn),
+      }),
+    );
+
+    props.brokerUrl?.secret.grantWrite(handler);
+
+    secret.addRotationSchedule('RotationSchedule', {
+      rotationLambda: handler,
+      automaticallyAfter: Duration.days(props.rotationDays),
+      // avoid redeploying services during a stack deployment.
+      rotateImmediatelyOnUpdate: false,
+    });
+
+    this.handler = handler;
+  }
+}
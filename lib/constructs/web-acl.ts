@@ -9,8 +9,63 @@ export interface CommonWebAclProps {
   allowedIpV4AddressRanges?: string[] | null;
   allowedIpV6AddressRanges?: string[] | null;
   allowedCountryCodes?: string[] | null;
+
+  /**
+   * AWS managed rule groups evaluated before the allow rules.
+   * @default no managed rule groups
+   */
+  managedRuleGroups?: AwsManagedRuleGroup[];
+
+  /**
+   * Rate-based rules that block an IP address sending too many requests to a path.
+   * @default no rate-based rules
+   */
+  rateLimits?: RateLimit[];
+
+  /**
+   * If true, managed rule groups and rate-based rules only count matching requests instead of blocking them.
+   * @default false
+   */
+  countOnly?: boolean;
+}
+
+export type AwsManagedRuleGroup =
+  | 'AWSManagedRulesCommonRuleSet'
+  | 'AWSManagedRulesKnownBadInputsRuleSet'
+  | 'AWSManagedRulesAmazonIpReputationList'
+  | 'AWSManagedRulesBotControlRuleSet';
+
+export interface RateLimit {
+  /**
+   * Requests whose URI path starts with this value are counted.
+   * @example '/console/api/login'
+   */
+  pathPrefix: string;
+
+  /**
+   * The maximum number of requests from an IP address in the evaluation window.
+   */
+  limit: number;
+
+  /**
+   * @default 300
+   */
+  evaluationWindowSec?: 60 | 120 | 300 | 600;
 }
 
+// WAF IP sets do not accept /0, so we split it into two halves.
+// https://docs.aws.amazon.com/waf/latest/APIReference/API_IPSet.html
+const toWafAddresses = (cidrs: string[]) =>
+  cidrs.flatMap((cidr) => {
+    if (cidr == '0.0.0.0/0') {
+      return ['0.0.0.0/1', '128.0.0.0/1'];
+    }
+    if (cidr == '::/0') {
+      return ['::/1', '8000::/1'];
+    }
+    return [cidr];
+  });
+
 export class CommonWebAcl extends Construct {
   public readonly webAclArn: string;
 
@@ -68,6 +123,61 @@ export class CommonWebAcl extends Construct {
       },
     });
 
+    // Block rules must be evaluated before the allow rules, which terminate the evaluation.
+    const managedRuleGroups = props.managedRuleGroups ?? [];
+    managedRuleGroups.forEach((name, i) => {
+      rules.push({
+        priority: i,
+        name,
+        overrideAction: props.countOnly ? { count: {} } : { none: {} },
+        statement: {
+          managedRuleGroupStatement: {
+            vendorName: 'AWS',
+            name,
+            // Dify accepts long prompts and file uploads larger than the 8 KB body limit of the rule.
+            ruleActionOverrides:
+              name == 'AWSManagedRulesCommonRuleSet'
+                ? [{ name: 'SizeRestrictions_BODY', actionToUse: { count: {} } }]
+                : undefined,
+          },
+        },
+        visibilityConfig: {
+          sampledRequestsEnabled: true,
+          cloudWatchMetricsEnabled: true,
+          metricName: name,
+        },
+      });
+    });
+    (props.rateLimits ?? []).forEach((rateLimit, i) => {
+      const name = `RateLimit${i}`;
+      rules.push({
+        priority: managedRuleGroups.length + i,
+        name,
+        action: props.countOnly ? { count: {} } : { block: {} },
+        statement: {
+          rateBasedStatement: {
+            limit: rateLimit.limit,
+            evaluationWindowSec: rateLimit.evaluationWindowSec ?? 300,
+            aggregateKeyType: 'IP',
+            scopeDownStatement: {
+              byteMatchStatement: {
+                searchString: rateLimit.pathPrefix,
+                fieldToMatch: { uriPath: {} },
+                positionalConstraint: 'STARTS_WITH',
+                textTransformations: [{ priority: 0, type: 'NONE' }],
+              },
+            },
+          },
+        },
+        visibilityConfig: {
+          sampledRequestsEnabled: true,
+          cloudWatchMetricsEnabled: true,
+          metricName: name,
+        },
+      });
+    });
+    const offset = rules.length;
+
     const hasAllowedIpV4 = props.allowedIpV4AddressRanges && props.allowedIpV4AddressRanges.length > 0;
     const hasAllowedIpV6 = props.allowedIpV6AddressRanges && props.allowedIpV6AddressRanges.length > 0;
     const hasAllowedCountryCodes = props.allowedCountryCodes && props.allowedCountryCodes.length > 0;
@@ -77,20 +187,20 @@ export class CommonWebAcl extends Construct {
       const wafIPv4Set = new CfnIPSet(this, 'IPv4Set', {
         ipAddressVersion: 'IPV4',
         scope: props.scope,
-        addresses: props.allowedIpV4AddressRanges ?? [],
+        addresses: toWafAddresses(props.allowedIpV4AddressRanges ?? []),
       });
       if (hasAllowedCountryCodes) {
         // Geo制限を行う場合は、IP制限とのAND条件にする
         rules.push(
           generateIpSetAndGeoMatchRule(
-            1,
+            offset + 1,
             'IpV4SetAndGeoMatchRule',
             wafIPv4Set.attrArn,
             props.allowedCountryCodes ?? [],
           ),
         );
       } else {
-        rules.push(generateIpSetRule(1, 'IpV4SetRule', wafIPv4Set.attrArn));
+        rules.push(generateIpSetRule(offset + 1, 'IpV4SetRule', wafIPv4Set.attrArn));
       }
     }
 
@@ -98,27 +208,27 @@ export class CommonWebAcl extends Construct {
       const wafIPv6Set = new CfnIPSet(this, 'IPv6Set', {
         ipAddressVersion: 'IPV6',
         scope: props.scope,
-        addresses: props.allowedIpV6AddressRanges ?? [],
+        addresses: toWafAddresses(props.allowedIpV6AddressRanges ?? []),
       });
       if (hasAllowedCountryCodes) {
         // Geo制限を行う場合は、IP制限とのAND条件にする
         rules.push(
           generateIpSetAndGeoMatchRule(
-            2,
+            offset + 2,
             'IpV6SetAndGeoMatchRule',
             wafIPv6Set.attrArn,
             props.allowedCountryCodes ?? [],
           ),
         );
       } else {
-        rules.push(generateIpSetRule(2, 'IpV6SetRule', wafIPv6Set.attrArn));
+        rules.push(generateIpSetRule(offset + 2, 'IpV6SetRule', wafIPv6Set.attrArn));
       }
     }
 
     // IP制限なしのGe制限のみの場合は、Geo制限のルールを定義
     if (!hasAllowedIpV4 && !hasAllowedIpV6 && hasAllowedCountryCodes) {
       rules.push({
-        priority: 3,
+        priority: offset + 3,
         ...commonRuleProperties('GeoMatchRule'),
         statement: {
           geoMatchStatement: {
@@ -129,7 +239,8 @@ export class CommonWebAcl extends Construct {
     }
 
     const webAcl = new CfnWebACL(this, 'WebAcl', {
-      defaultAction: { block: {} },
+      // without allow rules, requests not blocked by the rules are allowed.
+      defaultAction: rules.length > offset ? { block: {} } : { allow: {} },
       scope: props.scope,
       visibilityConfig: {
         cloudWatchMetricsEnabled: true,
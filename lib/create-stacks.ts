@@ -0,0 +1,63 @@
+import { Construct } from 'constructs';
+import { DifyOnAwsStack } from './dify-on-aws-stack';
+import { EnvironmentProps } from './environment-props';
+import { UsEast1Stack } from './us-east-1-stack';
+import { UsEast1MonitoringStack } from './us-east-1-monitoring-stack';
+
+export interface DifyStackIds {
+  /**
+   * The id of {@link DifyOnAwsStack}.
+   */
+  main: string;
+
+  /**
+   * The id of {@link UsEast1Stack}, which is created only when CloudFront needs resources in us-east-1.
+   */
+  usEast1: string;
+
+  /**
+   * The id of {@link UsEast1MonitoringStack}, which is created only when CloudFront is monitored.
+   */
+  usEast1Monitoring: string;
+}
+
+/**
+ * Creates the stacks for a Dify configuration. It is shared by the CDK app and the tests.
+ */
+export const createDifyStacks = (scope: Construct, props: EnvironmentProps, ids: DifyStackIds) => {
+  let virginia: UsEast1Stack | undefined = undefined;
+  if (
+    (props.useCloudFront ?? true) &&
+    (props.domainName || props.allowedIPv4Cidrs || props.allowedIPv6Cidrs || props.allowedCountryCodes || props.webAcl)
+  ) {
+    virginia = new UsEast1Stack(scope, ids.usEast1, {
+      env: { region: 'us-east-1', account: props.awsAccount },
+      crossRegionReferences: true,
+      domainName: props.domainName,
+      allowedIpV4AddressRanges: props.allowedIPv4Cidrs,
+      allowedIpV6AddressRanges: props.allowedIPv6Cidrs,
+      allowedCountryCodes: props.allowedCountryCodes,
+      webAcl: props.webAcl,
+    });
+  }
+
+  const main = new DifyOnAwsStack(scope, ids.main, {
+    env: { region: props.awsRegion, account: props.awsAccount },
+    crossRegionReferences: true,
+    ...props,
+    cloudFrontCertificate: virginia?.certificate,
+    cloudFrontWebAclArn: virginia?.webAclArn,
+  });
+
+  let virginiaMonitoring: UsEast1MonitoringStack | undefined = undefined;
+  if (props.monitoring && main.distribution) {
+    virginiaMonitoring = new UsEast1MonitoringStack(scope, ids.usEast1Monitoring, {
+      env: { region: 'us-east-1', account: props.awsAccount },
+      crossRegionReferences: true,
+      distributionId: main.distribution.distributionId,
+      monitoring: props.monitoring,
+    });
+  }
+
+  return { virginia, main, virginiaMonitoring };
+};
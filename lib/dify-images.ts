@@ -0,0 +1,76 @@
+import { execSync } from 'child_process';
+import { EnvironmentProps } from './environment-props';
+
+/**
+ * Returns the list of container images in Docker Hub used by the given environment.
+ */
+export const getDifyImages = (props: EnvironmentProps) => {
+  const difyImageTag = props.difyImageTag ?? 'latest';
+  const difySandboxImageTag = props.difySandboxImageTag ?? 'latest';
+  const difyPluginDaemonImageTag = props.difyPluginDaemonImageTag ?? 'main-local';
+
+  return [
+    `langgenius/dify-web:${difyImageTag}`,
+    `langgenius/dify-api:${difyImageTag}`,
+    `langgenius/dify-sandbox:${difySandboxImageTag}`,
+    `langgenius/dify-plugin-daemon:${difyPluginDaemonImageTag}`,
+    ...(props.openTelemetry ? [`amazon/aws-otel-collector:${props.openTelemetry.collectorImageTag ?? 'latest'}`] : []),
+  ];
+};
+
+/**
+ * Returns the output of `docker buildx imagetools inspect` for an image, formatted as the JSON of its image config.
+ */
+export type ImageInspector = (image: string) => string;
+
+const inspectImage: ImageInspector = (image) => {
+  try {
+    return execSync(`docker buildx imagetools inspect --format "{{json .Image}}" "${image}"`, {
+      encoding: 'utf-8',
+      stdio: 'pipe',
+    });
+  } catch (error) {
+    throw new Error(`Failed to inspect image ${image}: ${error}`);
+  }
+};
+
+/**
+ * Throws an error if any of the Dify images does not have a manifest for the CPU architecture of the environment.
+ * It requires Docker with buildx plugin, which is already required to build container image assets.
+ * @param inspect the function to inspect an image, which can be replaced in tests to avoid network access.
+ */
+export const validateImageArchitecture = (props: EnvironmentProps, inspect: ImageInspector = inspectImage) => {
+  if ((props.cpuArchitecture ?? 'X86_64') != 'ARM64') {
+    // all the Dify images support amd64
+    return;
+  }
+
+  const missing = getDifyImages(props).filter(
+    (image) => !parseImageArchitectures(image, inspect(image)).includes('arm64'),
+  );
+  if (missing.length > 0) {
+    throw new Error(
+      `The following images do not have arm64 manifest: ${missing.join(', ')}. Please use other image tags or set cpuArchitecture to X86_64.`,
+    );
+  }
+};
+
+/**
+ * Returns the CPU architectures of an image from the JSON of its image config.
+ * A single-platform image has one config, while a multi-platform image has a config for each platform keyed by the platform.
+ */
+export const parseImageArchitectures = (image: string, output: string): string[] => {
+  let config: unknown;
+  try {
+    config = JSON.parse(output);
+  } catch (error) {
+    throw new Error(`Failed to parse the image config of ${image}: ${error}`);
+  }
+  if (config == null || typeof config != 'object') {
+    throw new Error(`Failed to parse the image config of ${image}: expected an object, but got ${output.trim()}.`);
+  }
+  const configs = 'architecture' in config ? [config] : Object.values(config);
+  return configs
+    .map((c: unknown) => (c != null && typeof c == 'object' && 'architecture' in c ? c.architecture : undefined))
+    .filter((arch): arch is string => typeof arch == 'string');
+};
@@ -1,19 +1,27 @@
 import * as cdk from 'aws-cdk-lib';
-import { Cluster, ContainerInsights } from 'aws-cdk-lib/aws-ecs';
+import { Cluster, ContainerInsights, CpuArchitecture } from 'aws-cdk-lib/aws-ecs';
 import { Construct } from 'constructs';
 import { Postgres } from './constructs/postgres';
 import { Redis } from './constructs/redis';
 import { BlockPublicAccess, Bucket, ObjectOwnership } from 'aws-cdk-lib/aws-s3';
 import { WebService } from './constructs/dify-services/web';
-import { ApiService } from './constructs/dify-services/api';
+import { ApiService, ApiServiceProps } from './constructs/dify-services/api';
 import { Alb } from './constructs/alb';
 import { HostedZone } from 'aws-cdk-lib/aws-route53';
 import { AlbWithCloudFront } from './constructs/alb-with-cloudfront';
 import { ICertificate } from 'aws-cdk-lib/aws-certificatemanager';
+import { Distribution } from 'aws-cdk-lib/aws-cloudfront';
 import { Repository } from 'aws-cdk-lib/aws-ecr';
 import { createVpc } from './constructs/vpc';
 import { EnvironmentProps } from './environment-props';
+import { assertValidEnvironmentProps } from './environment-validation';
 import { EmailService } from './constructs/email';
+import { OpenSearchServerless } from './constructs/opensearch';
+import { Monitoring } from './constructs/monitoring';
+import { KnowledgeBase } from './constructs/knowledge-base';
+import { ContainerLogs } from './constructs/container-logs';
+import { Key } from 'aws-cdk-lib/aws-kms';
+import { CommonWebAcl } from './constructs/web-acl';
 
 /**
  * Mostly inherited from EnvironmentProps
@@ -24,6 +32,11 @@ export interface DifyOnAwsStackProps extends cdk.StackProps, Omit<EnvironmentPro
 }
 
 export class DifyOnAwsStack extends cdk.Stack {
+  /**
+   * The CloudFront distribution in front of the ALB, if {@link EnvironmentProps.useCloudFront} is true.
+   */
+  public readonly distribution?: Distribution;
+
   constructor(scope: Construct, id: string, props: DifyOnAwsStackProps) {
     super(scope, id, { ...props, description: 'Dify on AWS (uksb-zea0rh9k0v)' });
 
@@ -36,37 +49,19 @@ export class DifyOnAwsStack extends cdk.Stack {
       internalAlb = false,
       useFargateSpot = false,
       subDomain = 'dify',
+      dataRetention = 'destroy',
     } = props;
+    const dataRemovalPolicy = {
+      destroy: cdk.RemovalPolicy.DESTROY,
+      snapshot: cdk.RemovalPolicy.SNAPSHOT,
+      retain: cdk.RemovalPolicy.RETAIN,
+    }[dataRetention];
+    // for resources that do not support snapshot
+    const retainOrDestroy = dataRetention == 'destroy' ? cdk.RemovalPolicy.DESTROY : cdk.RemovalPolicy.RETAIN;
+    const cpuArchitecture = props.cpuArchitecture == 'ARM64' ? CpuArchitecture.ARM64 : CpuArchitecture.X86_64;
 
-    if (props.vpcId && (props.vpcIsolated != null || props.useNatInstance != null)) {
-      throw new Error(
-        `When you import an existing VPC (${props.vpcId}), you cannot set useNatInstance or vpcIsolated properties!`,
-      );
-    }
-
-    if (useCloudFront && props.internalAlb != null) {
-      throw new Error(`You cannot set internalAlb property when useCloudFront is true!`);
-    }
-
-    if (props.domainName == null && props.subDomain != null) {
-      throw new Error('You cannot set subDomain property without domainName!');
-    }
-
-    if (props.setupEmail && props.domainName == null) {
-      throw new Error('You cannot enable setupEmailServer without domainName!');
-    }
-
-    {
-      const filtered = (props.additionalEnvironmentVariables ?? [])
-        .map((v) => v.value)
-        .filter((v) => typeof v != 'string' && 'secretName' in v)
-        .filter((v) => /-......$/.test(v.secretName))
-        .map((v) => v.secretName);
-      if (filtered.length > 0) {
-        // https://docs.aws.amazon.com/cdk/api/v2/docs/aws-cdk-lib.aws_secretsmanager.Secret.html#static-fromwbrsecretwbrnamewbrv2scope-id-secretname
-        throw new Error(`secretName cannot ends with a hyphen and 6 characters! ${filtered.join(', ')}`);
-      }
-    }
+    // usually validated before synthesis by the config loader, but the stack can also be created directly.
+    assertValidEnvironmentProps(props);
 
     if (!props.useCloudFront && props.domainName == null && !internalAlb) {
       cdk.Annotations.of(this).addWarningV2(
@@ -89,9 +84,9 @@ export class DifyOnAwsStack extends cdk.Stack {
 
     const accessLogBucket = new Bucket(this, 'AccessLogBucket', {
       enforceSSL: true,
-      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      removalPolicy: retainOrDestroy,
       objectOwnership: ObjectOwnership.OBJECT_WRITER,
-      autoDeleteObjects: true,
+      autoDeleteObjects: retainOrDestroy == cdk.RemovalPolicy.DESTROY,
     });
 
     const cluster = new Cluster(this, 'Cluster', {
@@ -99,20 +94,67 @@ export class DifyOnAwsStack extends cdk.Stack {
       containerInsightsV2: ContainerInsights.ENABLED,
     });
 
+    const logs = new ContainerLogs(this, 'ContainerLogs', {
+      retention: props.logging?.retentionDays,
+      encryptionKey: props.logging?.kmsKeyArn
+        ? Key.fromKeyArn(this, 'LogEncryptionKey', props.logging.kmsKeyArn)
+        : undefined,
+      archiveBucket: props.logging?.archive
+        ? Bucket.fromBucketArn(this, 'LogArchiveBucket', props.logging.archive.bucketArn)
+        : undefined,
+      archivePrefix: props.logging?.archive?.prefix,
+      removalPolicy: retainOrDestroy,
+    });
+
     const postgres = new Postgres(this, 'Postgres', {
       vpc,
       scalesToZero: props.enableAuroraScalesToZero ?? false,
+      minCapacity: props.auroraMinCapacity,
+      maxCapacity: props.auroraMaxCapacity,
+      readerCount: props.auroraReaderCount,
+      engineVersion: props.auroraEngineVersion,
+      existingCluster: props.existingAuroraCluster,
+      removalPolicy: dataRemovalPolicy,
     });
 
-    const redis = new Redis(this, 'Redis', { vpc, multiAz: props.isRedisMultiAz ?? true });
+    const redis = new Redis(this, 'Redis', {
+      vpc,
+      multiAz: props.isRedisMultiAz ?? true,
+      serverless: props.useRedisServerless,
+      nodeType: props.redisNodeType,
+      numNodeGroups: props.redisNumShards,
+      replicasPerNodeGroup: props.redisReplicasPerShard,
+      removalPolicy: dataRemovalPolicy,
+    });
+
+    const openSearch =
+      props.vectorStore?.type == 'opensearch-serverless'
+        ? new OpenSearchServerless(this, 'VectorStore', {
+            vpc,
+            standbyReplicas: props.vectorStore.standbyReplicas,
+            removalPolicy: retainOrDestroy,
+          })
+        : undefined;
 
     const storageBucket = new Bucket(this, 'StorageBucket', {
-      autoDeleteObjects: true,
+      autoDeleteObjects: retainOrDestroy == cdk.RemovalPolicy.DESTROY,
       enforceSSL: true,
-      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      removalPolicy: retainOrDestroy,
       blockPublicAccess: BlockPublicAccess.BLOCK_ALL,
     });
 
+    // With CloudFront, the web ACL is created in us-east-1 (UsEast1Stack.)
+    const regionalWebAcl =
+      !useCloudFront && (props.allowedIPv4Cidrs || props.allowedIPv6Cidrs || props.allowedCountryCodes || props.webAcl)
+        ? new CommonWebAcl(this, 'WebAcl', {
+            scope: 'REGIONAL',
+            allowedIpV4AddressRanges: props.allowedIPv4Cidrs,
+            allowedIpV6AddressRanges: props.allowedIPv6Cidrs,
+            allowedCountryCodes: props.allowedCountryCodes,
+            ...props.webAcl,
+          })
+        : undefined;
+
     const alb = useCloudFront
       ? new AlbWithCloudFront(this, 'Alb', {
           vpc,
@@ -121,6 +163,10 @@ export class DifyOnAwsStack extends cdk.Stack {
           cloudFrontCertificate: props.cloudFrontCertificate,
           cloudFrontWebAclArn: props.cloudFrontWebAclArn,
           subDomain,
+          hostnames: props.hostnames,
+          idleTimeoutSeconds: props.albIdleTimeoutSeconds,
+          originReadTimeoutSeconds: props.cloudFrontOriginReadTimeoutSeconds,
+          originKeepaliveTimeoutSeconds: props.cloudFrontOriginKeepaliveTimeoutSeconds,
         })
       : new Alb(this, 'Alb', {
           vpc,
@@ -130,7 +176,46 @@ export class DifyOnAwsStack extends cdk.Stack {
           accessLogBucket,
           internal: internalAlb,
           subDomain,
+          hostnames: props.hostnames,
+          authentication: props.albAuthentication,
+          webAclArn: regionalWebAcl?.webAclArn,
+          idleTimeoutSeconds: props.albIdleTimeoutSeconds,
+        });
+
+    if (alb instanceof AlbWithCloudFront) {
+      this.distribution = alb.distribution;
+    }
+
+    let externalKnowledgeApi: ApiServiceProps['externalKnowledgeApi'];
+    if (props.externalKnowledgeApi !== false) {
+      const { bedrockRegion = this.region, knowledgeBaseIds, createKnowledgeBase } = props.externalKnowledgeApi ?? {};
+      // without knowledgeBaseIds, Dify can retrieve from all the knowledge bases in the account.
+      const knowledgeBaseArns = (knowledgeBaseIds ?? ['*:*']).map((id) => {
+        const [region, knowledgeBaseId] = id.includes(':') ? id.split(':') : [bedrockRegion, id];
+        return this.formatArn({
+          service: 'bedrock',
+          region,
+          resource: 'knowledge-base',
+          resourceName: knowledgeBaseId,
+        });
+      });
+      if (createKnowledgeBase) {
+        const knowledgeBase = new KnowledgeBase(this, 'KnowledgeBase', {
+          postgres,
+          removalPolicy: retainOrDestroy,
         });
+        knowledgeBaseArns.push(knowledgeBase.knowledgeBaseArn);
+
+        new cdk.CfnOutput(this, 'KnowledgeBaseId', {
+          // the knowledge base is in the stack region, which can be different from bedrockRegion.
+          value: `${this.region}:${knowledgeBase.knowledgeBaseId}`,
+        });
+        new cdk.CfnOutput(this, 'KnowledgeBaseSourceBucketName', {
+          value: knowledgeBase.sourceBucket.bucketName,
+        });
+      }
+      externalKnowledgeApi = { bedrockRegion, knowledgeBaseArns };
+    }
 
     const email =
       hostedZone && props.setupEmail
@@ -143,13 +228,15 @@ export class DifyOnAwsStack extends cdk.Stack {
       ? Repository.fromRepositoryName(this, 'CustomRepository', props.customEcrRepositoryName)
       : undefined;
 
-    new ApiService(this, 'ApiService', {
+    const api = new ApiService(this, 'ApiService', {
       cluster,
       alb,
+      logs,
       postgres,
       redis,
       storageBucket,
       email,
+      openSearch,
       imageTag,
       sandboxImageTag,
       pluginDaemonImageTag,
@@ -157,20 +244,66 @@ export class DifyOnAwsStack extends cdk.Stack {
       customRepository,
       additionalEnvironmentVariables: props.additionalEnvironmentVariables,
       autoMigration: true,
+      logLevel: props.logging?.levels?.api,
+      workerLogLevel: props.logging?.levels?.worker,
+      pluginDaemonLogLevel: props.logging?.levels?.pluginDaemon,
+      openTelemetry: props.openTelemetry,
+      externalKnowledgeApi,
       useFargateSpot,
+      secretRemovalPolicy: retainOrDestroy,
+      internalKeyRotationDays: props.internalKeyRotationDays,
+      cpuArchitecture,
+      separateServices: props.separateApiServices,
+      taskSizes: props.taskSizes,
+      autoScaling: props.autoScaling?.api,
+      workerAutoScaling: props.autoScaling?.worker,
     });
 
-    new WebService(this, 'WebService', {
+    const web = new WebService(this, 'WebService', {
       cluster,
       alb,
+      logs,
       imageTag,
       customRepository,
       additionalEnvironmentVariables: props.additionalEnvironmentVariables,
       useFargateSpot,
+      cpuArchitecture,
+      taskSize: props.taskSizes?.web,
+      logLevel: props.logging?.levels?.web,
+      openTelemetry: props.openTelemetry,
+      autoScaling: props.autoScaling?.web,
     });
 
+    if (props.redisAuthTokenRotationDays != null) {
+      // sandbox does not connect to Redis.
+      const { Sandbox, ...services } = api.services;
+      redis.addRotationSchedule(props.redisAuthTokenRotationDays, cluster, Object.values(services));
+    }
+
+    if (props.monitoring) {
+      new Monitoring(this, 'Monitoring', {
+        alb,
+        targetGroups: { Api: api.targetGroup, Web: web.targetGroup },
+        services: { ...api.services, Web: web.service },
+        postgres,
+        redis,
+        auroraMaxCapacity: postgres.maxCapacity,
+        alarmEmails: props.monitoring.alarmEmails,
+        alarmHttpsEndpoints: props.monitoring.alarmHttpsEndpoints,
+      });
+    }
+
     new cdk.CfnOutput(this, 'DifyUrl', {
       value: alb.url,
     });
+
+    if (props.hostnames) {
+      new cdk.CfnOutput(this, 'DifyAppsUrl', {
+        value: alb.urls.apps,
+      });
+      new cdk.CfnOutput(this, 'DifyServiceApiUrl', {
+        value: alb.urls.serviceApi,
+      });
+    }
   }
 }
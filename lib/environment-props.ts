@@ -1,3 +1,5 @@
+import { AwsManagedRuleGroup, RateLimit } from './constructs/web-acl';
+
 /**
  * The configuration parameters for a Dify environment
  */
@@ -16,6 +18,7 @@ export interface EnvironmentProps {
 
   /**
    * IPv4 address ranges in CIDR notation that have access to the app.
+   * They are enforced by an AWS WAF web ACL, attached to CloudFront or to the ALB when {@link useCloudFront} is false.
    * @example ['1.1.1.1/30']
    * @default Allow access from any IP addresses
    */
@@ -23,11 +26,50 @@ export interface EnvironmentProps {
 
   /**
    * IPv6 address ranges in CIDR notation that have access to the app.
+   * They are enforced by an AWS WAF web ACL, attached to CloudFront or to the ALB when {@link useCloudFront} is false.
    * @example ['2001:db8:0:7::5/64']
    * @default Allow access from any IP addresses
    */
   allowedIPv6Cidrs?: string[];
 
+  /**
+   * Country codes (ISO 3166-1 alpha-2) that have access to the app, determined by AWS WAF from the source IP address.
+   * When it is set with {@link allowedIPv4Cidrs} or {@link allowedIPv6Cidrs}, a request must satisfy both conditions.
+   * @example ['JP', 'US']
+   * @default Allow access from any countries
+   */
+  allowedCountryCodes?: string[];
+
+  /**
+   * Additional AWS WAF rules of the web ACL for CloudFront, or for the ALB when {@link useCloudFront} is false.
+   * Setting this property creates the web ACL even without {@link allowedIPv4Cidrs} or {@link allowedIPv6Cidrs}.
+   * @default only the IP address restriction is applied.
+   */
+  webAcl?: {
+    /**
+     * AWS managed rule groups to protect Dify from common exploits and bots.
+     * SizeRestrictions_BODY rule of AWSManagedRulesCommonRuleSet is always set to count, as Dify accepts large request bodies.
+     * Note that AWSManagedRulesBotControlRuleSet has additional fees.
+     * @example ['AWSManagedRulesCommonRuleSet', 'AWSManagedRulesKnownBadInputsRuleSet', 'AWSManagedRulesAmazonIpReputationList']
+     * @default no managed rule groups
+     */
+    managedRuleGroups?: AwsManagedRuleGroup[];
+
+    /**
+     * Rate-based rules that block IP addresses sending too many requests to a path, e.g. credential stuffing on the login API.
+     * @example [{ pathPrefix: '/console/api/login', limit: 100 }]
+     * @default no rate limits
+     */
+    rateLimits?: RateLimit[];
+
+    /**
+     * If true, the managed rule groups and rate-based rules only count matching requests without blocking them.
+     * Use it to check false positives in WAF metrics and sampled requests before enforcing the rules.
+     * @default false
+     */
+    countOnly?: boolean;
+  };
+
   /**
    * Use t4g.nano NAT instances instead of NAT Gateway.
    * This property is ignored when you import an existing VPC (see {@link vpcId}.)
@@ -64,6 +106,72 @@ export interface EnvironmentProps {
    */
   subDomain?: string;
 
+  /**
+   * Separate hostnames (subdomains of {@link domainName}) for the console, the published web apps, and the service API.
+   * Each hostname gets a certificate, a DNS record, and ALB listener rules that only route the paths the endpoint serves:
+   * - `console`: the console and all the APIs except the service API
+   * - `apps`: the web apps, `/api` and `/files`
+   * - `serviceApi`: `/v1` and `/files`
+   *
+   * An endpoint without a hostname uses {@link subDomain}. This property cannot be set without {@link domainName}.
+   * @example { console: 'console', apps: 'apps', serviceApi: 'api' }
+   * @default all the endpoints are served on {@link subDomain}.
+   */
+  hostnames?: {
+    console?: string;
+    apps?: string;
+    serviceApi?: string;
+  };
+
+  /**
+   * If set, the ALB authenticates users with an OpenID Connect IdP or an Amazon Cognito user pool before they reach the console,
+   * e.g. to hide the console behind your corporate SSO. Set either {@link oidc} or {@link cognito}.
+   * It requires an HTTPS listener, so {@link useCloudFront} must be false and {@link domainName} must be set.
+   * @default users are not authenticated at the ALB.
+   */
+  albAuthentication?: {
+    oidc?: {
+      issuer: string;
+      authorizationEndpoint: string;
+      tokenEndpoint: string;
+      userInfoEndpoint: string;
+      clientId: string;
+      /**
+       * The name of a Secrets Manager secret that stores the client secret as plain text.
+       */
+      clientSecretName: string;
+      /**
+       * @default 'openid'
+       */
+      scope?: string;
+    };
+
+    cognito?: {
+      userPoolArn: string;
+      /**
+       * The ID of an app client with a client secret.
+       */
+      userPoolClientId: string;
+      /**
+       * The domain prefix of the user pool, e.g. `my-company` for `my-company.auth.us-west-2.amazoncognito.com`.
+       */
+      userPoolDomainPrefix: string;
+    };
+
+    /**
+     * Endpoints accessible without authentication.
+     * `apps` can be public only when it has its own hostname (see {@link hostnames}), as the web apps share pages with the console.
+     * `serviceApi` exempts `/v1` paths, which are authenticated with API keys.
+     * @default ['serviceApi'], and 'apps' if hostnames.apps differs from the console hostname.
+     */
+    publicEndpoints?: ('apps' | 'serviceApi')[];
+
+    /**
+     * @default 604800 (7 days)
+     */
+    sessionTimeoutSeconds?: number;
+  };
+
   /**
    * If true, the ElastiCache Valkey cluster is deployed to multiple AZs for fault tolerance.
    * It is generally recommended to enable this, but you can disable it to minimize AWS cost.
@@ -71,6 +179,72 @@ export interface EnvironmentProps {
    */
   isRedisMultiAz?: boolean;
 
+  /**
+   * If set, Dify uses the existing Aurora PostgreSQL cluster instead of creating a new one.
+   * The cluster must be reachable from the VPC, and [Data API](https://docs.aws.amazon.com/AmazonRDS/latest/AuroraUserGuide/data-api.html) must be enabled
+   * because CDK creates `main` and `pgvector` databases and the `vector` extension through it.
+   * Dify also creates `dify_plugin` database on startup, so these database names must not be used by other applications.
+   * @default A new Aurora Serverless v2 cluster is created.
+   */
+  existingAuroraCluster?: {
+    clusterIdentifier: string;
+    /**
+     * The hostname of the cluster (writer) endpoint.
+     * @example 'my-cluster.cluster-abcdefghijkl.us-west-2.rds.amazonaws.com'
+     */
+    endpoint: string;
+    /**
+     * @default 5432
+     */
+    port?: number;
+    /**
+     * The complete ARN of the Secrets Manager secret that contains `username` and `password` fields in JSON.
+     */
+    secretArn: string;
+    /**
+     * The security groups attached to the cluster. Ingress rules from Dify services are added to these security groups.
+     */
+    securityGroupIds: string[];
+  };
+
+  /**
+   * If true, ElastiCache Serverless for Valkey is used instead of a node-based replication group.
+   * It scales automatically with the workload, but note that only the database 0 is available and
+   * Celery must work with a cluster mode enabled cache.
+   * This property cannot be set with {@link redisNodeType}, {@link redisNumShards}, {@link redisReplicasPerShard}, or {@link isRedisMultiAz}.
+   * @default false
+   */
+  useRedisServerless?: boolean;
+
+  /**
+   * The node type of the ElastiCache replication group.
+   * @default 'cache.t4g.micro'
+   */
+  redisNodeType?: string;
+
+  /**
+   * The number of shards of the ElastiCache replication group.
+   * Only 1 is supported for now, because Dify is not configured for cluster mode and the Celery broker does not support it.
+   * Use {@link redisNodeType} and {@link redisReplicasPerShard} to scale the cache.
+   * @default 1
+   */
+  redisNumShards?: number;
+
+  /**
+   * The number of replicas per shard of the ElastiCache replication group.
+   * It must be 1 or larger when {@link isRedisMultiAz} is true.
+   * @default 1 when isRedisMultiAz is true, 0 otherwise
+   */
+  redisReplicasPerShard?: number;
+
+  /**
+   * If set, the auth token of ElastiCache is rotated in the interval with ROTATE strategy, which keeps the previous token valid
+   * until the next rotation. The ECS services are redeployed after the rotation to use the new token.
+   * This property cannot be set when {@link useRedisServerless} is true.
+   * @default the auth token is not rotated.
+   */
+  redisAuthTokenRotationDays?: number;
+
   /**
    * If enabled, Aurora Serverless v2 automatically scales to zero with cold start around 10 seconds.
    * https://docs.aws.amazon.com/AmazonRDS/latest/AuroraUserGuide/aurora-serverless-v2-auto-pause.html
@@ -78,6 +252,68 @@ export interface EnvironmentProps {
    */
   enableAuroraScalesToZero?: boolean;
 
+  /**
+   * The vector store Dify uses to store embeddings of knowledge bases.
+   * - `pgvector`: use the pgvector extension in the Aurora PostgreSQL cluster.
+   * - `opensearch-serverless`: create an Amazon OpenSearch Serverless vector search collection only accessible from the VPC.
+   *   It offloads vector search from the Aurora cluster, which is useful for large datasets.
+   * @default { type: 'pgvector' }
+   */
+  vectorStore?:
+    | {
+        type: 'pgvector';
+      }
+    | {
+        type: 'opensearch-serverless';
+        /**
+         * If true, the collection has standby replicas in another AZ for fault tolerance.
+         * You can disable it to minimize AWS cost.
+         * @default true
+         */
+        standbyReplicas?: boolean;
+      };
+
+  /**
+   * How stateful resources (Aurora cluster, ElastiCache, S3 buckets, OpenSearch collection and secrets) are handled
+   * when they are removed from the stack, e.g. by `cdk destroy`.
+   * - `destroy`: delete all the resources and data. Suitable for testing.
+   * - `snapshot`: take final snapshots of Aurora and ElastiCache before deletion, and retain the other resources.
+   * - `retain`: retain all the resources.
+   *
+   * In `snapshot` and `retain` mode, deletion protection and automated backups (7 days) of Aurora are also enabled.
+   * @default 'destroy'
+   */
+  dataRetention?: 'destroy' | 'snapshot' | 'retain';
+
+  /**
+   * The minimum capacity (ACU) of Aurora Serverless v2.
+   * This property cannot be set when {@link enableAuroraScalesToZero} is true.
+   * @default 0.5
+   */
+  auroraMinCapacity?: number;
+
+  /**
+   * The maximum capacity (ACU) of Aurora Serverless v2.
+   * @default 2
+   */
+  auroraMaxCapacity?: number;
+
+  /**
+   * The number of Aurora Serverless v2 reader instances, which are spread across AZs.
+   * Set 1 or more for a highly available database; a reader is promoted to the writer on failure.
+   * @default 0
+   */
+  auroraReaderCount?: number;
+
+  /**
+   * The engine version of Aurora PostgreSQL.
+   * When {@link enableAuroraScalesToZero} is true, the version must support automatic pause
+   * (13.15, 14.12, 15.7, 16.3 or later in each major version.)
+   * @example '16.6'
+   * @default '15.7'
+   */
+  auroraEngineVersion?: string;
+
   /**
    * If enabled, Dify runs on Fargate spot capacity. Note that because Fargate spot can be interrupted,
    * it is recommended to use the option for non-critical use case.
@@ -85,6 +321,67 @@ export interface EnvironmentProps {
    */
   useFargateSpot?: boolean;
 
+  /**
+   * If true, Dify api, worker, sandbox, and plugin-daemon are deployed as separate ECS services,
+   * which find each other through ECS Service Connect.
+   * It allows you to scale and deploy each component independently, and a crash of one component does not restart others.
+   * When false, all the components run as containers in a single ECS task.
+   * @default false
+   */
+  separateApiServices?: boolean;
+
+  /**
+   * CPU, memory and ephemeral storage sizes of Dify ECS tasks.
+   * The combination of cpu and memoryLimitMiB must be one of the [supported values for Fargate](https://docs.aws.amazon.com/AmazonECS/latest/developerguide/fargate-tasks-services.html#fargate-tasks-size).
+   *
+   * When {@link separateApiServices} is false, api, worker, sandbox and plugin-daemon share a single task,
+   * and the size of the task is determined by `api` property. The containers share the CPU and memory of the task,
+   * and per-container sizes are not supported. Set {@link separateApiServices} to true to size each component.
+   * @default web: 256 CPU / 512 MiB, api: 1024 CPU / 2048 MiB, worker: 1024 CPU / 2048 MiB, sandbox: 512 CPU / 1024 MiB, pluginDaemon: 1024 CPU / 2048 MiB
+   */
+  taskSizes?: {
+    web?: TaskSize;
+    api?: TaskSize;
+    /**
+     * This property can be set only when {@link separateApiServices} is true.
+     * Containers in the shared task cannot be sized individually.
+     */
+    worker?: TaskSize;
+    /**
+     * This property can be set only when {@link separateApiServices} is true.
+     * Containers in the shared task cannot be sized individually.
+     */
+    sandbox?: TaskSize;
+    /**
+     * This property can be set only when {@link separateApiServices} is true.
+     * Containers in the shared task cannot be sized individually.
+     */
+    pluginDaemon?: TaskSize;
+  };
+
+  /**
+   * Auto scaling configuration for Dify ECS services.
+   * Each service is scaled by target tracking policies on the metrics you specify.
+   *
+   * @default Each service runs with a single task and no auto scaling.
+   */
+  autoScaling?: {
+    api?: ServiceAutoScalingProps;
+    web?: ServiceAutoScalingProps;
+    /**
+     * This property can be set only when {@link separateApiServices} is true.
+     */
+    worker?: ServiceAutoScalingProps;
+  };
+
+  /**
+   * The CPU architecture of Dify ECS tasks.
+   * ARM64 (AWS Graviton) is usually less expensive than X86_64 with the same task size.
+   * When you set ARM64, all the image tags you use must have arm64 manifests.
+   * @default 'X86_64'
+   */
+  cpuArchitecture?: 'X86_64' | 'ARM64';
+
   /**
    * The image tag to deploy the Dify container images (api and web).
    * The images are pulled from [here](https://hub.docker.com/u/langgenius).
@@ -135,6 +432,33 @@ export interface EnvironmentProps {
    */
   internalAlb?: boolean;
 
+  /**
+   * The number of seconds that CloudFront waits for a response from the ALB, and between the packets of a response.
+   * Increase it if long LLM responses streamed with server-sent events are cut off.
+   * It must be between 1 and 180, and values above 60 require a quota increase of CloudFront.
+   * This property can be set only when {@link useCloudFront} is true.
+   *
+   * @default 30
+   */
+  cloudFrontOriginReadTimeoutSeconds?: number;
+
+  /**
+   * The number of seconds that CloudFront keeps an idle connection to the ALB open.
+   * It must be between 1 and 180, and values above 60 require a quota increase of CloudFront.
+   * This property can be set only when {@link useCloudFront} is true.
+   *
+   * @default 5
+   */
+  cloudFrontOriginKeepaliveTimeoutSeconds?: number;
+
+  /**
+   * The number of seconds that the ALB keeps a connection open without any data sent or received.
+   * It must be between 1 and 4000. With CloudFront, it must be longer than {@link cloudFrontOriginKeepaliveTimeoutSeconds}.
+   *
+   * @default 60
+   */
+  albIdleTimeoutSeconds?: number;
+
   /**
    * If set, ECR tasks pull Dify container images from this ECR private repository instead of Docker Hub.
    * When you use this, you must run `copy-to-ecr.ts` before deployment to push Dify images to the private repository.
@@ -180,6 +504,198 @@ export interface EnvironmentProps {
    * @default false
    */
   setupEmail?: boolean;
+
+  /**
+   * The external knowledge API for Amazon Bedrock Knowledge Bases, which is deployed as a sidecar of Dify api.
+   * You can connect Dify to the knowledge bases with the External Knowledge Base feature.
+   * Set false to remove the sidecar.
+   * @default the external knowledge API is deployed for all the knowledge bases in the account and the stack region.
+   */
+  externalKnowledgeApi?:
+    | false
+    | {
+        /**
+         * The region of the knowledge bases.
+         * @default the region of the stack
+         */
+        bedrockRegion?: string;
+
+        /**
+         * The IDs of existing knowledge bases Dify can retrieve from.
+         * Add a region prefix with colon for a knowledge base in another region than {@link bedrockRegion}, e.g. `us-east-1:QWERTYASDF`.
+         * @default all the knowledge bases in the account, in any region
+         */
+        knowledgeBaseIds?: string[];
+
+        /**
+         * If true, a knowledge base is created in the region of the stack. It stores vectors in the pgvector database
+         * of the Aurora cluster, and uses a new S3 bucket as the data source.
+         * @default false
+         */
+        createKnowledgeBase?: boolean;
+      };
+
+  /**
+   * If set, the keys used between Dify components (api, worker, sandbox, and plugin daemon) are rotated in the interval.
+   * Each key is stored in its own Secrets Manager secret, and the api service is redeployed after the rotation.
+   * SECRET_KEY is not rotated because changing it logs out all the users.
+   * This property cannot be set when {@link separateApiServices} is true, because the services would use
+   * different keys until all of them are redeployed.
+   * @default keys are not rotated.
+   */
+  internalKeyRotationDays?: number;
+
+  /**
+   * Settings for the CloudWatch Logs log groups of Dify containers.
+   * A log group named `/dify/<stack name>/<container>` is created for each container (api, worker, sandbox, plugin-daemon, web, etc.)
+   */
+  logging?: {
+    /**
+     * The number of days to retain logs. It must be one of the values supported by CloudWatch Logs, e.g. 30, 90, 365, or 400.
+     * @default logs never expire.
+     */
+    retentionDays?: number;
+
+    /**
+     * The ARN of a KMS key to encrypt the log groups.
+     * The key policy must allow CloudWatch Logs service principal to use the key.
+     * @default log groups are encrypted with a key managed by CloudWatch Logs.
+     */
+    kmsKeyArn?: string;
+
+    /**
+     * If set, all the container logs are shipped to an S3 bucket through a Kinesis Data Firehose stream.
+     * @default logs are not shipped.
+     */
+    archive?: {
+      /**
+       * The ARN of an existing S3 bucket. If the bucket is in another account, its bucket policy must allow the Firehose role to write objects.
+       */
+      bucketArn: string;
+
+      /**
+       * @default 'dify-logs/'
+       */
+      prefix?: string;
+    };
+
+    /**
+     * The log level of each component. Use DEBUG temporarily to investigate an incident, as it outputs a lot of logs.
+     * DEBUG also enables the debug mode of Dify (api, worker and web) or Gin (plugin-daemon).
+     * The plugin daemon does not distinguish the levels other than DEBUG.
+     * @default 'ERROR' for all the components
+     */
+    levels?: {
+      api?: LogLevel;
+      worker?: LogLevel;
+      web?: LogLevel;
+      pluginDaemon?: LogLevel;
+    };
+  };
+
+  /**
+   * If set, an ADOT (AWS Distro for OpenTelemetry) collector sidecar is added to the api, worker, and web tasks.
+   * Traces are exported to X-Ray and metrics to CloudWatch.
+   * @default OpenTelemetry is disabled.
+   */
+  openTelemetry?: {
+    /**
+     * The image tag of amazon/aws-otel-collector.
+     * @default 'latest'
+     */
+    collectorImageTag?: string;
+
+    /**
+     * The ratio of requests to trace, from 0 to 1.
+     * @default 0.1
+     */
+    samplingRate?: number;
+  };
+
+  /**
+   * If set, a CloudWatch dashboard and alarms are created. Alarms are notified to an SNS topic.
+   * @default No dashboard and alarms are created.
+   */
+  monitoring?: {
+    /**
+     * Email addresses subscribed to the alarm topic. Each address receives a confirmation email after deployment.
+     * @default No email subscription.
+     */
+    alarmEmails?: string[];
+
+    /**
+     * HTTPS endpoints subscribed to the alarm topic, e.g. a webhook of your chat or incident management tool.
+     * @default No HTTPS subscription.
+     */
+    alarmHttpsEndpoints?: string[];
+  };
 }
 
 export type DifyContainerTypes = 'web' | 'api' | 'worker' | 'sandbox';
+
+export type LogLevel = 'DEBUG' | 'INFO' | 'WARNING' | 'ERROR' | 'CRITICAL';
+
+export interface TaskSize {
+  /**
+   * The number of cpu units used by the task.
+   * @example 1024
+   */
+  cpu: number;
+
+  /**
+   * The amount (in MiB) of memory used by the task.
+   * @example 2048
+   */
+  memoryLimitMiB: number;
+
+  /**
+   * The amount (in GiB) of ephemeral storage to be allocated to the task. The value must be between 21 and 200.
+   * @default 20 GiB
+   */
+  ephemeralStorageGiB?: number;
+}
+
+export interface ServiceAutoScalingProps {
+  /**
+   * The minimum number of tasks.
+   * @default 1
+   */
+  minCapacity?: number;
+
+  /**
+   * The maximum number of tasks.
+   */
+  maxCapacity: number;
+
+  /**
+   * The target value of average CPU utilization (%) across all tasks.
+   * @default No CPU based scaling
+   */
+  targetCpuUtilizationPercent?: number;
+
+  /**
+   * The target value of average memory utilization (%) across all tasks.
+   * @default No memory based scaling
+   */
+  targetMemoryUtilizationPercent?: number;
+
+  /**
+   * The target number of ALB requests per task per minute.
+   * @default No request count based scaling
+   */
+  targetRequestCountPerTarget?: number;
+
+  /**
+   * The period in seconds after a scale-in activity completes before another scale-in activity can start.
+   * Dify streams LLM responses for a long time, so it is set conservatively to avoid scale-in flapping.
+   * Independently of this, a task chosen for scale-in drains in-flight requests for up to 120 seconds before it stops.
+   * @default 600
+   */
+  scaleInCooldownSeconds?: number;
+
+  /**
+   * The period in seconds after a scale-out activity completes before another scale-out activity can start.
+   * @default 60
+   */
+  scaleOutCooldownSeconds?: number;
+}
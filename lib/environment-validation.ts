@@ -0,0 +1,848 @@
+import { isIPv4, isIPv6 } from 'net';
+import { RetentionDays } from 'aws-cdk-lib/aws-logs';
+import { EnvironmentProps, ServiceAutoScalingProps, TaskSize } from './environment-props';
+import { RateLimit } from './constructs/web-acl';
+import { supportedMemoryMiB } from './constructs/dify-services/task-size';
+import { supportsAutoPause } from './constructs/postgres';
+
+export interface ValidationIssue {
+  /**
+   * The path to the invalid property.
+   * @example 'taskSizes.api.memoryLimitMiB'
+   */
+  path: string;
+
+  message: string;
+
+  /**
+   * How to fix the problem.
+   */
+  suggestion?: string;
+}
+
+export interface ValidationOptions {
+  /**
+   * If true, props are treated as a complete EnvironmentProps loaded from a configuration file or CDK context.
+   * awsRegion is required and unknown properties are reported, which are usually typos.
+   * @default false
+   */
+  strict?: boolean;
+}
+
+/**
+ * awsRegion and awsAccount are optional because DifyOnAwsStack receives them as the stack env.
+ */
+export type ValidatableProps = Omit<EnvironmentProps, 'awsRegion' | 'awsAccount'> &
+  Partial<Pick<EnvironmentProps, 'awsRegion' | 'awsAccount'>>;
+
+// The type ensures that every property of EnvironmentProps is listed here.
+const knownProperties: { [K in keyof Required<EnvironmentProps>]: true } = {
+  awsRegion: true,
+  awsAccount: true,
+  allowedIPv4Cidrs: true,
+  allowedIPv6Cidrs: true,
+  allowedCountryCodes: true,
+  webAcl: true,
+  useNatInstance: true,
+  vpcIsolated: true,
+  vpcId: true,
+  domainName: true,
+  subDomain: true,
+  hostnames: true,
+  albAuthentication: true,
+  isRedisMultiAz: true,
+  existingAuroraCluster: true,
+  useRedisServerless: true,
+  redisNodeType: true,
+  redisNumShards: true,
+  redisReplicasPerShard: true,
+  redisAuthTokenRotationDays: true,
+  enableAuroraScalesToZero: true,
+  vectorStore: true,
+  dataRetention: true,
+  auroraMinCapacity: true,
+  auroraMaxCapacity: true,
+  auroraReaderCount: true,
+  auroraEngineVersion: true,
+  useFargateSpot: true,
+  separateApiServices: true,
+  taskSizes: true,
+  autoScaling: true,
+  cpuArchitecture: true,
+  difyImageTag: true,
+  difySandboxImageTag: true,
+  difyPluginDaemonImageTag: true,
+  allowAnySyscalls: true,
+  useCloudFront: true,
+  internalAlb: true,
+  cloudFrontOriginReadTimeoutSeconds: true,
+  cloudFrontOriginKeepaliveTimeoutSeconds: true,
+  albIdleTimeoutSeconds: true,
+  customEcrRepositoryName: true,
+  additionalEnvironmentVariables: true,
+  setupEmail: true,
+  externalKnowledgeApi: true,
+  internalKeyRotationDays: true,
+  logging: true,
+  openTelemetry: true,
+  monitoring: true,
+};
+
+const booleanProperties = [
+  'useNatInstance',
+  'vpcIsolated',
+  'isRedisMultiAz',
+  'useRedisServerless',
+  'enableAuroraScalesToZero',
+  'useFargateSpot',
+  'separateApiServices',
+  'allowAnySyscalls',
+  'useCloudFront',
+  'internalAlb',
+  'setupEmail',
+] as const;
+
+const logLevels = ['DEBUG', 'INFO', 'WARNING', 'ERROR', 'CRITICAL'];
+const containerTypes = ['web', 'api', 'worker', 'sandbox'];
+
+const regionPattern = /^[a-z]{2}(-gov|-iso[a-z]?)?-(north|south|east|west|central)+-\d+$/;
+// https://docs.docker.com/reference/cli/docker/image/tag/
+const imageTagPattern = /^[A-Za-z0-9_][A-Za-z0-9_.-]{0,127}$/;
+const domainNamePattern = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+const subDomainPattern = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$/;
+const ecrRepositoryNamePattern = /^(?=.{2,256}$)([a-z0-9]+([._-][a-z0-9]+)*\/)*[a-z0-9]+([._-][a-z0-9]+)*$/;
+
+/**
+ * Checks all the properties of EnvironmentProps and returns every problem found.
+ * It does not create any construct, so it can be used before synthesis, e.g. in scripts.
+ */
+export const validateEnvironmentProps = (
+  props: ValidatableProps,
+  options: ValidationOptions = {},
+): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const add = (path: string, message: string, suggestion?: string) => issues.push({ path, message, suggestion });
+
+  // returns true if the value is set and has the expected type.
+  const is = (path: string, value: unknown, type: 'string' | 'number' | 'boolean' | 'object' | 'array') => {
+    if (value === undefined) {
+      return false;
+    }
+    const actual = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+    if (actual != type) {
+      const suggestion =
+        type == 'string' && actual == 'number' ? `Quote the value in YAML, e.g. '${value}'.` : undefined;
+      add(path, `must be ${type == 'array' || type == 'object' ? 'an' : 'a'} ${type} but got ${actual}.`, suggestion);
+      return false;
+    }
+    return true;
+  };
+
+  const checkNumber = (path: string, value: unknown, min: number, max: number, integer = true) => {
+    if (!is(path, value, 'number')) {
+      return;
+    }
+    const num = value as number;
+    if (integer && !Number.isInteger(num)) {
+      add(path, `must be an integer but got ${num}.`, `Use ${Math.round(num)}.`);
+    } else if (num < min || num > max) {
+      add(path, `must be between ${min} and ${max} but got ${num}.`, `Use ${Math.min(Math.max(num, min), max)}.`);
+    }
+  };
+
+  const checkPattern = (path: string, value: unknown, pattern: RegExp, description: string, suggestion?: string) => {
+    if (is(path, value, 'string') && !pattern.test(value as string)) {
+      add(path, `'${value}' is not a valid ${description}.`, suggestion);
+    }
+  };
+
+  const checkEnum = (path: string, value: unknown, allowed: string[]) => {
+    if (!is(path, value, 'string') || allowed.includes(value as string)) {
+      return;
+    }
+    const match = allowed.find((a) => a.toLowerCase() == (value as string).toLowerCase());
+    add(
+      path,
+      `'${value}' is not a supported value.`,
+      match ? `Use '${match}'.` : `Use one of ${allowed.map((a) => `'${a}'`).join(', ')}.`,
+    );
+  };
+
+  const checkArray = (path: string, value: unknown, check: (path: string, item: unknown) => void) => {
+    if (is(path, value, 'array')) {
+      (value as unknown[]).forEach((item, i) => check(`${path}[${i}]`, item));
+    }
+  };
+
+  const checkRegion = (path: string, value: unknown) => {
+    if (!is(path, value, 'string') || regionPattern.test(value as string)) {
+      return;
+    }
+    // e.g. ' US-West-2a ' -> 'us-west-2'
+    const fixed = (value as string)
+      .trim()
+      .toLowerCase()
+      .replace(/(\d)[a-z]$/, '$1');
+    add(
+      path,
+      `'${value}' is not a valid AWS region name.`,
+      regionPattern.test(fixed) ? `Use '${fixed}'.` : `Use a region code, e.g. 'us-west-2'.`,
+    );
+  };
+
+  const checkImageTag = (path: string, value: unknown) => {
+    if (!is(path, value, 'string') || imageTagPattern.test(value as string)) {
+      return;
+    }
+    // e.g. 'langgenius/dify-api:1.1.3' -> '1.1.3'
+    const fixed = (value as string).trim().replace(/^.*:/, '');
+    add(
+      path,
+      `'${value}' is not a valid image tag.`,
+      imageTagPattern.test(fixed) ? `Set only the tag, e.g. '${fixed}'.` : `Use a tag like '1.1.3'.`,
+    );
+  };
+
+  const checkCidr = (path: string, value: unknown, version: 4 | 6) => {
+    if (!is(path, value, 'string')) {
+      return;
+    }
+    const isIp = version == 4 ? isIPv4 : isIPv6;
+    const maxPrefix = version == 4 ? 32 : 128;
+    const [address, prefix, ...rest] = (value as string).split('/');
+    if (prefix === undefined && isIp(address)) {
+      add(path, `'${value}' is not in CIDR notation.`, `Use '${address}/${maxPrefix}' for a single address.`);
+    } else if (rest.length > 0 || !isIp(address) || !/^\d{1,3}$/.test(prefix) || Number(prefix) > maxPrefix) {
+      const other = version == 4 ? isIPv6 : isIPv4;
+      add(
+        path,
+        `'${value}' is not a valid IPv${version} CIDR block.`,
+        other(address)
+          ? `Move it to allowedIPv${version == 4 ? 6 : 4}Cidrs.`
+          : `Use the form of ${version == 4 ? "'203.0.113.0/24'" : "'2001:db8::/32'"}.`,
+      );
+    }
+  };
+
+  const checkTaskSize = (path: string, size: TaskSize | undefined) => {
+    if (!is(path, size, 'object')) {
+      return;
+    }
+    const { cpu, memoryLimitMiB, ephemeralStorageGiB } = size!;
+    for (const key of ['cpu', 'memoryLimitMiB'] as const) {
+      if (size![key] === undefined) {
+        add(`${path}.${key}`, 'is required.');
+      }
+    }
+    if (is(`${path}.cpu`, cpu, 'number')) {
+      const memories = supportedMemoryMiB[cpu];
+      if (memories == null) {
+        add(
+          `${path}.cpu`,
+          `${cpu} is not supported by Fargate.`,
+          `Use one of ${Object.keys(supportedMemoryMiB).join(', ')}.`,
+        );
+      } else if (is(`${path}.memoryLimitMiB`, memoryLimitMiB, 'number') && !memories.includes(memoryLimitMiB)) {
+        const nearest = memories.find((m) => m >= memoryLimitMiB) ?? memories[memories.length - 1];
+        add(
+          `${path}.memoryLimitMiB`,
+          `${memoryLimitMiB} is not supported with cpu ${cpu}.`,
+          `Use ${nearest}. Supported values are ${memories.join(', ')}.`,
+        );
+      }
+    } else {
+      is(`${path}.memoryLimitMiB`, memoryLimitMiB, 'number');
+    }
+    checkNumber(`${path}.ephemeralStorageGiB`, ephemeralStorageGiB, 21, 200);
+  };
+
+  const checkAutoScaling = (path: string, scaling: ServiceAutoScalingProps | undefined) => {
+    if (!is(path, scaling, 'object')) {
+      return;
+    }
+    const { minCapacity = 1, maxCapacity } = scaling!;
+    checkNumber(`${path}.minCapacity`, scaling!.minCapacity, 1, Infinity);
+    if (maxCapacity === undefined) {
+      add(`${path}.maxCapacity`, 'is required.', `Set maxCapacity to ${minCapacity} or larger.`);
+    } else {
+      checkNumber(`${path}.maxCapacity`, maxCapacity, 1, Infinity);
+      if (typeof minCapacity == 'number' && typeof maxCapacity == 'number' && maxCapacity < minCapacity) {
+        add(`${path}.maxCapacity`, `must be larger than or equal to minCapacity (${minCapacity}).`);
+      }
+    }
+    checkNumber(`${path}.targetCpuUtilizationPercent`, scaling!.targetCpuUtilizationPercent, 1, 100, false);
+    checkNumber(`${path}.targetMemoryUtilizationPercent`, scaling!.targetMemoryUtilizationPercent, 1, 100, false);
+    checkNumber(`${path}.targetRequestCountPerTarget`, scaling!.targetRequestCountPerTarget, 1, Infinity);
+    checkNumber(`${path}.scaleInCooldownSeconds`, scaling!.scaleInCooldownSeconds, 0, Infinity);
+    checkNumber(`${path}.scaleOutCooldownSeconds`, scaling!.scaleOutCooldownSeconds, 0, Infinity);
+  };
+
+  // Unknown properties
+  if (options.strict) {
+    for (const key of Object.keys(props)) {
+      if (key in knownProperties) {
+        continue;
+      }
+      const similar = Object.keys(knownProperties).find((known) => editDistance(key, known) <= 3);
+      add(key, 'is not a known property.', similar ? `Did you mean '${similar}'?` : undefined);
+    }
+    if (props.awsRegion === undefined) {
+      add('awsRegion', 'is required.', `Set a region code, e.g. 'us-west-2'.`);
+    }
+  }
+
+  // AWS environment
+  checkRegion('awsRegion', props.awsRegion);
+  if (props.awsAccount !== undefined && !/^\d{12}$/.test(String(props.awsAccount))) {
+    add(
+      'awsAccount',
+      `'${props.awsAccount}' is not a valid AWS account ID.`,
+      typeof props.awsAccount == 'number'
+        ? 'Quote the account ID in YAML, as leading zeros of a number are dropped.'
+        : 'Use the 12-digit account ID.',
+    );
+  }
+
+  for (const key of booleanProperties) {
+    is(key, props[key], 'boolean');
+  }
+
+  // Network
+  checkArray('allowedCountryCodes', props.allowedCountryCodes, (path, code) => {
+    if (is(path, code, 'string') && !/^[A-Z]{2}$/.test(code as string)) {
+      const fixed = (code as string).trim().toUpperCase();
+      add(
+        path,
+        `'${code}' is not a valid country code.`,
+        /^[A-Z]{2}$/.test(fixed) ? `Use '${fixed}'.` : 'Use an ISO 3166-1 alpha-2 code, e.g. JP.',
+      );
+    }
+  });
+  if (is('webAcl', props.webAcl, 'object')) {
+    const { managedRuleGroups, rateLimits, countOnly } = props.webAcl!;
+    checkArray('webAcl.managedRuleGroups', managedRuleGroups, (path, name) =>
+      checkEnum(path, name, [
+        'AWSManagedRulesCommonRuleSet',
+        'AWSManagedRulesKnownBadInputsRuleSet',
+        'AWSManagedRulesAmazonIpReputationList',
+        'AWSManagedRulesBotControlRuleSet',
+      ]),
+    );
+    checkArray('webAcl.rateLimits', rateLimits, (path, rateLimit) => {
+      if (!is(path, rateLimit, 'object')) {
+        return;
+      }
+      const { pathPrefix, limit, evaluationWindowSec } = rateLimit as RateLimit;
+      if (pathPrefix === undefined || limit === undefined) {
+        add(path, 'requires pathPrefix and limit.', `Set them like { pathPrefix: '/console/api/login', limit: 100 }.`);
+      }
+      if (is(`${path}.pathPrefix`, pathPrefix, 'string') && !pathPrefix.startsWith('/')) {
+        add(`${path}.pathPrefix`, `'${pathPrefix}' must start with a slash.`, `Use '/${pathPrefix}'.`);
+      }
+      // https://docs.aws.amazon.com/waf/latest/developerguide/waf-rule-statement-type-rate-based-high-level-settings.html
+      checkNumber(`${path}.limit`, limit, 10, 2000000000);
+      if (evaluationWindowSec !== undefined && ![60, 120, 300, 600].includes(evaluationWindowSec)) {
+        add(`${path}.evaluationWindowSec`, `${evaluationWindowSec} is not supported.`, 'Use one of 60, 120, 300, 600.');
+      }
+    });
+    is('webAcl.countOnly', countOnly, 'boolean');
+  }
+
+  checkArray('allowedIPv4Cidrs', props.allowedIPv4Cidrs, (path, cidr) => checkCidr(path, cidr, 4));
+  checkArray('allowedIPv6Cidrs', props.allowedIPv6Cidrs, (path, cidr) => checkCidr(path, cidr, 6));
+  checkPattern(
+    'vpcId',
+    props.vpcId,
+    /^vpc-([0-9a-f]{8}|[0-9a-f]{17})$/,
+    'VPC ID',
+    `Use the form of 'vpc-0123456789abcdef0'.`,
+  );
+  if (props.vpcId != null && (props.vpcIsolated != null || props.useNatInstance != null)) {
+    add(
+      props.vpcIsolated != null ? 'vpcIsolated' : 'useNatInstance',
+      `cannot be set when you import an existing VPC (${props.vpcId}).`,
+      'Remove useNatInstance and vpcIsolated, or remove vpcId to create a new VPC.',
+    );
+  }
+  if (props.vpcIsolated && props.useNatInstance) {
+    add(
+      'useNatInstance',
+      'cannot be true when vpcIsolated is true.',
+      'An isolated VPC has no NAT. Remove useNatInstance.',
+    );
+  }
+
+  if (is('domainName', props.domainName, 'string') && !domainNamePattern.test(props.domainName!)) {
+    // e.g. 'https://Example.com/' -> 'example.com'
+    const fixed = props
+      .domainName!.trim()
+      .toLowerCase()
+      .replace(/^[a-z]+:\/\//, '')
+      .replace(/\/.*$/, '')
+      .replace(/\.$/, '');
+    add(
+      'domainName',
+      `'${props.domainName}' is not a valid domain name.`,
+      domainNamePattern.test(fixed)
+        ? `Use '${fixed}'.`
+        : `Use the name of your Route53 hosted zone, e.g. 'example.com'.`,
+    );
+  }
+  if (is('subDomain', props.subDomain, 'string')) {
+    if (props.domainName == null) {
+      add('subDomain', 'cannot be set without domainName.', 'Set domainName or remove subDomain.');
+    } else if (props.subDomain!.endsWith(`.${props.domainName}`)) {
+      add(
+        'subDomain',
+        `must not include domainName.`,
+        `Use '${props.subDomain!.slice(0, -props.domainName.length - 1)}'.`,
+      );
+    } else if (!subDomainPattern.test(props.subDomain!)) {
+      add('subDomain', `'${props.subDomain}' is not a valid DNS label.`, `Use lowercase letters, digits and hyphens.`);
+    }
+  }
+
+  if (is('hostnames', props.hostnames, 'object')) {
+    if (props.domainName == null) {
+      add('hostnames', 'cannot be set without domainName.', 'Set domainName or remove hostnames.');
+    }
+    for (const key of ['console', 'apps', 'serviceApi'] as const) {
+      checkPattern(
+        `hostnames.${key}`,
+        props.hostnames![key],
+        subDomainPattern,
+        'DNS label',
+        'Set only the subdomain part without domainName, e.g. console.',
+      );
+    }
+  }
+
+  const useCloudFront = props.useCloudFront ?? true;
+  const subDomain = props.subDomain ?? 'dify';
+  if (useCloudFront && props.internalAlb != null) {
+    add('internalAlb', 'cannot be set when useCloudFront is true.', 'Set useCloudFront: false to use an internal ALB.');
+  }
+
+  // https://docs.aws.amazon.com/AmazonCloudFront/latest/DeveloperGuide/cloudfront-limits.html
+  for (const key of ['cloudFrontOriginReadTimeoutSeconds', 'cloudFrontOriginKeepaliveTimeoutSeconds'] as const) {
+    checkNumber(key, props[key], 1, 180);
+    if (!useCloudFront && props[key] != null) {
+      add(
+        key,
+        'cannot be set when useCloudFront is false.',
+        'Use albIdleTimeoutSeconds to change the timeout of the ALB.',
+      );
+    }
+  }
+  // https://docs.aws.amazon.com/elasticloadbalancing/latest/application/application-load-balancers.html#connection-idle-timeout
+  checkNumber('albIdleTimeoutSeconds', props.albIdleTimeoutSeconds, 1, 4000);
+  const keepaliveTimeout = props.cloudFrontOriginKeepaliveTimeoutSeconds ?? 5;
+  const idleTimeout = props.albIdleTimeoutSeconds ?? 60;
+  // the ALB must not close a connection that CloudFront is about to reuse, or viewers get 502 errors.
+  if (useCloudFront && typeof keepaliveTimeout == 'number' && typeof idleTimeout == 'number') {
+    if (idleTimeout <= keepaliveTimeout) {
+      add(
+        'albIdleTimeoutSeconds',
+        `must be longer than cloudFrontOriginKeepaliveTimeoutSeconds (${keepaliveTimeout}) but got ${idleTimeout}.`,
+        `Use ${keepaliveTimeout + 1} or more.`,
+      );
+    }
+  }
+
+  const authentication = props.albAuthentication;
+  if (is('albAuthentication', authentication, 'object')) {
+    const path = 'albAuthentication';
+    const { oidc, cognito, publicEndpoints } = authentication!;
+    if (useCloudFront || props.domainName == null) {
+      add(
+        path,
+        'requires an HTTPS listener of the ALB.',
+        'Set useCloudFront: false and domainName, as CloudFront connects to the ALB with HTTP.',
+      );
+    }
+    if ((oidc == null) == (cognito == null)) {
+      add(path, 'must have either oidc or cognito.', 'Set one of them for your identity provider.');
+    }
+    if (is(`${path}.oidc`, oidc, 'object')) {
+      for (const key of ['issuer', 'authorizationEndpoint', 'tokenEndpoint', 'userInfoEndpoint'] as const) {
+        if (oidc![key] === undefined) {
+          add(`${path}.oidc.${key}`, 'is required.');
+        } else if (is(`${path}.oidc.${key}`, oidc![key], 'string') && !oidc![key].startsWith('https://')) {
+          add(`${path}.oidc.${key}`, `'${oidc![key]}' must be an HTTPS URL.`);
+        }
+      }
+      for (const key of ['clientId', 'clientSecretName'] as const) {
+        if (oidc![key] === undefined) {
+          add(`${path}.oidc.${key}`, 'is required.');
+        }
+        is(`${path}.oidc.${key}`, oidc![key], 'string');
+      }
+      is(`${path}.oidc.scope`, oidc!.scope, 'string');
+    }
+    if (is(`${path}.cognito`, cognito, 'object')) {
+      checkPattern(
+        `${path}.cognito.userPoolArn`,
+        cognito!.userPoolArn ?? '',
+        /^arn:aws[a-z-]*:cognito-idp:[a-z0-9-]+:\d{12}:userpool\/[\w-]+_[0-9a-zA-Z]+$/,
+        'user pool ARN',
+        'Use the form of arn:aws:cognito-idp:us-west-2:123456789012:userpool/us-west-2_AbCdEfGhI.',
+      );
+      if (cognito!.userPoolClientId === undefined) {
+        add(`${path}.cognito.userPoolClientId`, 'is required.');
+      }
+      if (is(`${path}.cognito.userPoolDomainPrefix`, cognito!.userPoolDomainPrefix ?? '', 'string')) {
+        const prefix = cognito!.userPoolDomainPrefix ?? '';
+        if (!/^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/.test(prefix)) {
+          const fixed = prefix.replace(/^https:\/\//, '').split('.')[0];
+          add(
+            `${path}.cognito.userPoolDomainPrefix`,
+            `'${prefix}' is not a valid domain prefix.`,
+            fixed && fixed != prefix ? `Use '${fixed}'.` : undefined,
+          );
+        }
+      }
+    }
+    checkArray(`${path}.publicEndpoints`, publicEndpoints, (p, endpoint) => {
+      checkEnum(p, endpoint, ['apps', 'serviceApi']);
+      if (endpoint == 'apps' && (props.hostnames?.apps ?? subDomain) == (props.hostnames?.console ?? subDomain)) {
+        add(
+          p,
+          'apps cannot be public on the console hostname.',
+          "Set a separate hostname like hostnames: { apps: 'apps' }, or remove apps from publicEndpoints.",
+        );
+      }
+    });
+    checkNumber(`${path}.sessionTimeoutSeconds`, authentication!.sessionTimeoutSeconds, 1, 604800);
+  }
+
+  // Database and cache
+  const aurora = props.existingAuroraCluster;
+  if (is('existingAuroraCluster', aurora, 'object')) {
+    const path = 'existingAuroraCluster';
+    if (is(`${path}.clusterIdentifier`, aurora!.clusterIdentifier ?? '', 'string') && !aurora!.clusterIdentifier) {
+      add(`${path}.clusterIdentifier`, 'is required.');
+    }
+    if (is(`${path}.endpoint`, aurora!.endpoint ?? '', 'string') && !aurora!.endpoint) {
+      add(`${path}.endpoint`, 'is required.', 'Use the hostname of the cluster (writer) endpoint.');
+    }
+    checkNumber(`${path}.port`, aurora!.port, 1, 65535);
+    if (aurora!.secretArn === undefined) {
+      add(`${path}.secretArn`, 'is required.');
+    }
+    checkPattern(
+      `${path}.secretArn`,
+      aurora!.secretArn,
+      /^arn:aws[a-z-]*:secretsmanager:[a-z0-9-]+:\d{12}:secret:.+-[A-Za-z0-9]{6}$/,
+      'complete secret ARN',
+      'Use the complete ARN including the 6 characters suffix, e.g. arn:aws:secretsmanager:us-west-2:123456789012:secret:name-AbCdEf.',
+    );
+    checkArray(`${path}.securityGroupIds`, aurora!.securityGroupIds ?? [], (p, id) =>
+      checkPattern(p, id, /^sg-([0-9a-f]{8}|[0-9a-f]{17})$/, 'security group ID'),
+    );
+
+    const conflicts = (
+      [
+        'enableAuroraScalesToZero',
+        'auroraMinCapacity',
+        'auroraMaxCapacity',
+        'auroraReaderCount',
+        'auroraEngineVersion',
+      ] as const
+    ).filter((key) => props[key] != null);
+    for (const key of conflicts) {
+      add(key, 'cannot be set when you import an existing Aurora cluster.', `Remove ${key} or existingAuroraCluster.`);
+    }
+  }
+
+  if (props.enableAuroraScalesToZero && props.auroraMinCapacity != null) {
+    add(
+      'auroraMinCapacity',
+      'cannot be set when enableAuroraScalesToZero is true.',
+      'Remove auroraMinCapacity, as the minimum capacity is 0 with enableAuroraScalesToZero.',
+    );
+  }
+  for (const key of ['auroraMinCapacity', 'auroraMaxCapacity'] as const) {
+    checkNumber(key, props[key], key == 'auroraMinCapacity' ? 0 : 1, 256, false);
+    if (typeof props[key] == 'number' && props[key]! % 0.5 != 0) {
+      add(key, `must be in 0.5 ACU increments but got ${props[key]}.`, `Use ${Math.ceil(props[key]! * 2) / 2}.`);
+    }
+  }
+  {
+    const min = props.enableAuroraScalesToZero ? 0 : (props.auroraMinCapacity ?? 0.5);
+    const max = props.auroraMaxCapacity ?? 2;
+    if (typeof min == 'number' && typeof max == 'number' && min > max) {
+      add(
+        'auroraMaxCapacity',
+        `must be larger than or equal to auroraMinCapacity (${min}).`,
+        `Set auroraMaxCapacity to ${min} or larger.`,
+      );
+    }
+  }
+  checkNumber('auroraReaderCount', props.auroraReaderCount, 0, 15);
+  if (is('auroraEngineVersion', props.auroraEngineVersion, 'string')) {
+    const version = /^(\d+)\.(\d+)$/.exec(props.auroraEngineVersion!);
+    if (version == null) {
+      add(
+        'auroraEngineVersion',
+        `'${props.auroraEngineVersion}' is not a valid version.`,
+        `Use a version like '16.6'.`,
+      );
+    } else if (props.enableAuroraScalesToZero && !supportsAutoPause(Number(version[1]), Number(version[2]))) {
+      add(
+        'auroraEngineVersion',
+        `${props.auroraEngineVersion} does not support scaling to zero.`,
+        'Use 13.15, 14.12, 15.7, 16.3 or later in each major version.',
+      );
+    }
+  }
+
+  if (props.useRedisServerless) {
+    const conflicts = (
+      [
+        'redisNodeType',
+        'redisNumShards',
+        'redisReplicasPerShard',
+        'isRedisMultiAz',
+        'redisAuthTokenRotationDays',
+      ] as const
+    ).filter((key) => props[key] != null);
+    for (const key of conflicts) {
+      add(key, 'cannot be set when useRedisServerless is true.', `Remove ${key} or useRedisServerless.`);
+    }
+  } else if ((props.isRedisMultiAz ?? true) && props.redisReplicasPerShard === 0) {
+    add(
+      'redisReplicasPerShard',
+      'must be 1 or larger when isRedisMultiAz is true.',
+      'Set redisReplicasPerShard to 1 or larger, or set isRedisMultiAz: false.',
+    );
+  }
+  if (
+    is('redisNodeType', props.redisNodeType, 'string') &&
+    !/^cache\.[a-z0-9]+\.[a-z0-9]+$/.test(props.redisNodeType!)
+  ) {
+    add(
+      'redisNodeType',
+      `'${props.redisNodeType}' is not a valid node type.`,
+      /^[a-z0-9]+\.[a-z0-9]+$/.test(props.redisNodeType!)
+        ? `Use 'cache.${props.redisNodeType}'.`
+        : `Use a node type like 'cache.t4g.micro'.`,
+    );
+  }
+  checkNumber('redisNumShards', props.redisNumShards, 1, 500);
+  if (typeof props.redisNumShards == 'number' && props.redisNumShards > 1) {
+    add(
+      'redisNumShards',
+      'must be 1, because Dify connects to Redis without cluster mode and the Celery broker does not support it.',
+      'Remove redisNumShards, and scale up with redisNodeType or add replicas with redisReplicasPerShard.',
+    );
+  }
+  checkNumber('redisReplicasPerShard', props.redisReplicasPerShard, 0, 5);
+  // Secrets Manager rotates secrets at most every 1000 days.
+  checkNumber('redisAuthTokenRotationDays', props.redisAuthTokenRotationDays, 1, 1000);
+  checkNumber('internalKeyRotationDays', props.internalKeyRotationDays, 1, 1000);
+  if (props.internalKeyRotationDays != null && props.separateApiServices) {
+    add(
+      'internalKeyRotationDays',
+      'cannot be set when separateApiServices is true.',
+      'Requests between the separate services fail while they are redeployed with a new key. Remove internalKeyRotationDays or separateApiServices.',
+    );
+  }
+
+  if (is('vectorStore', props.vectorStore, 'object')) {
+    checkEnum('vectorStore.type', props.vectorStore!.type ?? '', ['pgvector', 'opensearch-serverless']);
+  }
+  checkEnum('dataRetention', props.dataRetention, ['destroy', 'snapshot', 'retain']);
+
+  // ECS
+  checkEnum('cpuArchitecture', props.cpuArchitecture, ['X86_64', 'ARM64']);
+  if (is('taskSizes', props.taskSizes, 'object')) {
+    for (const key of ['web', 'api', 'worker', 'sandbox', 'pluginDaemon'] as const) {
+      checkTaskSize(`taskSizes.${key}`, props.taskSizes![key]);
+    }
+    if (!props.separateApiServices) {
+      for (const key of ['worker', 'sandbox', 'pluginDaemon'] as const) {
+        if (props.taskSizes![key] != null) {
+          add(
+            `taskSizes.${key}`,
+            'cannot be set unless separateApiServices is true. ' +
+              'api, worker, sandbox and plugin-daemon share a single task, and per-container sizes are not supported.',
+            'Set separateApiServices: true to size each component, or size the shared task with taskSizes.api.',
+          );
+        }
+      }
+    }
+  }
+  if (is('autoScaling', props.autoScaling, 'object')) {
+    for (const key of ['api', 'web', 'worker'] as const) {
+      checkAutoScaling(`autoScaling.${key}`, props.autoScaling![key]);
+    }
+    if (props.autoScaling!.worker && !props.separateApiServices) {
+      add('autoScaling.worker', 'cannot be set unless separateApiServices is true.', 'Set separateApiServices: true.');
+    }
+    if (props.autoScaling!.worker?.targetRequestCountPerTarget != null) {
+      add(
+        'autoScaling.worker.targetRequestCountPerTarget',
+        'cannot be set because worker is not behind the ALB.',
+        'Use targetCpuUtilizationPercent or targetMemoryUtilizationPercent instead.',
+      );
+    }
+  }
+
+  // Container images
+  checkImageTag('difyImageTag', props.difyImageTag);
+  checkImageTag('difySandboxImageTag', props.difySandboxImageTag);
+  checkImageTag('difyPluginDaemonImageTag', props.difyPluginDaemonImageTag);
+  if (
+    is('customEcrRepositoryName', props.customEcrRepositoryName, 'string') &&
+    !ecrRepositoryNamePattern.test(props.customEcrRepositoryName!)
+  ) {
+    add(
+      'customEcrRepositoryName',
+      `'${props.customEcrRepositoryName}' is not a valid ECR repository name.`,
+      'Use lowercase letters, digits, and . _ - / separators, e.g. dify-images.',
+    );
+  }
+
+  checkArray('additionalEnvironmentVariables', props.additionalEnvironmentVariables, (path, variable) => {
+    if (!is(path, variable, 'object')) {
+      return;
+    }
+    const { key, value, targets } = variable as NonNullable<EnvironmentProps['additionalEnvironmentVariables']>[number];
+    checkPattern(`${path}.key`, key ?? '', /^[A-Za-z_][A-Za-z0-9_]*$/, 'environment variable name');
+    if (value == null) {
+      add(`${path}.value`, 'is required.');
+    } else if (typeof value == 'object' && 'secretName' in value && /-......$/.test(value.secretName)) {
+      // https://docs.aws.amazon.com/cdk/api/v2/docs/aws-cdk-lib.aws_secretsmanager.Secret.html#static-fromwbrsecretwbrnamewbrv2scope-id-secretname
+      add(
+        `${path}.value.secretName`,
+        `'${value.secretName}' cannot end with a hyphen and 6 characters.`,
+        'Rename the secret so that it does not look like a secret ARN suffix.',
+      );
+    } else if (typeof value == 'object' && !('secretName' in value) && !('parameterName' in value)) {
+      add(`${path}.value`, 'must be a string, { parameterName } or { secretName, field? }.');
+    } else if (typeof value != 'object') {
+      is(`${path}.value`, value, 'string');
+    }
+    checkArray(`${path}.targets`, targets, (p, target) => checkEnum(p, target, containerTypes));
+  });
+
+  if (props.setupEmail && props.domainName == null) {
+    add('setupEmail', 'cannot be enabled without domainName.', 'Set domainName, as SES verifies the domain identity.');
+  }
+
+  // Optional features
+  const knowledgeApi = props.externalKnowledgeApi;
+  if (knowledgeApi !== false && is('externalKnowledgeApi', knowledgeApi, 'object')) {
+    checkRegion('externalKnowledgeApi.bedrockRegion', knowledgeApi!.bedrockRegion);
+    is('externalKnowledgeApi.createKnowledgeBase', knowledgeApi!.createKnowledgeBase, 'boolean');
+    checkArray('externalKnowledgeApi.knowledgeBaseIds', knowledgeApi!.knowledgeBaseIds, (path, id) => {
+      if (!is(path, id, 'string')) {
+        return;
+      }
+      const [region, kbId] = (id as string).includes(':') ? (id as string).split(':') : [undefined, id as string];
+      if (region !== undefined) {
+        checkRegion(path, region);
+      }
+      if (!/^[0-9A-Z]{10}$/.test(kbId)) {
+        add(
+          path,
+          `'${id}' is not a valid knowledge base ID.`,
+          `Use a 10-character ID like 'ABCDEFGHIJ', optionally with a region prefix like 'us-east-1:ABCDEFGHIJ'.`,
+        );
+      }
+    });
+  }
+
+  const logging = props.logging;
+  if (is('logging', logging, 'object')) {
+    if (is('logging.retentionDays', logging!.retentionDays, 'number')) {
+      const supported = Object.values(RetentionDays).filter((d): d is number => typeof d == 'number' && d > 0);
+      if (!supported.includes(logging!.retentionDays!)) {
+        const nearest = supported.sort((a, b) => a - b).find((d) => d >= logging!.retentionDays!);
+        add(
+          'logging.retentionDays',
+          `${logging!.retentionDays} is not supported by CloudWatch Logs.`,
+          nearest ? `Use ${nearest}.` : `Use one of ${supported.join(', ')}.`,
+        );
+      }
+    }
+    checkPattern(
+      'logging.kmsKeyArn',
+      logging!.kmsKeyArn,
+      /^arn:aws[a-z-]*:kms:[a-z0-9-]+:\d{12}:key\/.+$/,
+      'KMS key ARN',
+      'Use a key ARN like arn:aws:kms:us-west-2:123456789012:key/<key id>. Aliases are not supported.',
+    );
+    if (is('logging.archive', logging!.archive, 'object')) {
+      const { bucketArn } = logging!.archive!;
+      if (bucketArn === undefined) {
+        add('logging.archive.bucketArn', 'is required.');
+      } else if (
+        is('logging.archive.bucketArn', bucketArn, 'string') &&
+        !/^arn:aws[a-z-]*:s3:::[a-z0-9][a-z0-9.-]{1,61}[a-z0-9]$/.test(bucketArn)
+      ) {
+        add(
+          'logging.archive.bucketArn',
+          `'${bucketArn}' is not a valid S3 bucket ARN.`,
+          /^[a-z0-9][a-z0-9.-]{1,61}[a-z0-9]$/.test(bucketArn) ? `Use 'arn:aws:s3:::${bucketArn}'.` : undefined,
+        );
+      }
+      is('logging.archive.prefix', logging!.archive!.prefix, 'string');
+    }
+    if (is('logging.levels', logging!.levels, 'object')) {
+      for (const key of ['api', 'worker', 'web', 'pluginDaemon'] as const) {
+        checkEnum(`logging.levels.${key}`, logging!.levels![key], logLevels);
+      }
+    }
+  }
+
+  if (is('openTelemetry', props.openTelemetry, 'object')) {
+    checkImageTag('openTelemetry.collectorImageTag', props.openTelemetry!.collectorImageTag);
+    checkNumber('openTelemetry.samplingRate', props.openTelemetry!.samplingRate, 0, 1, false);
+  }
+
+  if (is('monitoring', props.monitoring, 'object')) {
+    checkArray('monitoring.alarmEmails', props.monitoring!.alarmEmails, (path, email) =>
+      checkPattern(path, email, /^[^@\s]+@[^@\s]+\.[^@\s]+$/, 'email address'),
+    );
+    checkArray('monitoring.alarmHttpsEndpoints', props.monitoring!.alarmHttpsEndpoints, (path, url) => {
+      if (is(path, url, 'string') && !/^https:\/\/\S+$/.test(url as string)) {
+        const fixed = (url as string).replace(/^http:\/\//, 'https://');
+        add(path, `'${url}' is not an HTTPS URL.`, fixed != url ? `Use '${fixed}'.` : undefined);
+      }
+    });
+  }
+
+  return issues;
+};
+
+/**
+ * Validates props and throws an error listing all the problems found.
+ */
+export const assertValidEnvironmentProps = (props: ValidatableProps, options: ValidationOptions = {}) => {
+  const issues = validateEnvironmentProps(props, options);
+  if (issues.length == 0) {
+    return;
+  }
+  const lines = issues.map(
+    ({ path, message, suggestion }) => `  - ${path}: ${message}${suggestion ? `\n      Fix: ${suggestion}` : ''}`,
+  );
+  throw new Error(
+    `Found ${issues.length} problem${issues.length > 1 ? 's' : ''} in the Dify configuration:\n${lines.join('\n')}`,
+  );
+};
+
+// Levenshtein distance, used to suggest a property for a typo.
+const editDistance = (a: string, b: string) => {
+  a = a.toLowerCase();
+  b = b.toLowerCase();
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] == b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
@@ -0,0 +1,24 @@
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import { CloudFrontAlarms } from './constructs/monitoring';
+import { EnvironmentProps } from './environment-props';
+
+interface UsEast1MonitoringStackProps extends cdk.StackProps {
+  distributionId: string;
+  monitoring: NonNullable<EnvironmentProps['monitoring']>;
+}
+
+/**
+ * CloudWatch alarms for the CloudFront distribution of {@link DifyOnAwsStack}. CloudFront metrics are only available in us-east-1.
+ */
+export class UsEast1MonitoringStack extends cdk.Stack {
+  constructor(scope: Construct, id: string, props: UsEast1MonitoringStackProps) {
+    super(scope, id, props);
+
+    new CloudFrontAlarms(this, 'Monitoring', {
+      distributionId: props.distributionId,
+      alarmEmails: props.monitoring.alarmEmails,
+      alarmHttpsEndpoints: props.monitoring.alarmHttpsEndpoints,
+    });
+  }
+}
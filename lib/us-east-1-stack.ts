@@ -3,12 +3,14 @@ import { Certificate, CertificateValidation, ICertificate } from 'aws-cdk-lib/aw
 import { HostedZone } from 'aws-cdk-lib/aws-route53';
 import { Construct } from 'constructs';
 import { CommonWebAcl } from './constructs/web-acl';
+import { EnvironmentProps } from './environment-props';
 
 interface UsEast1StackProps extends cdk.StackProps {
   domainName?: string;
   allowedIpV4AddressRanges?: string[];
   allowedIpV6AddressRanges?: string[];
   allowedCountryCodes?: string[];
+  webAcl?: EnvironmentProps['webAcl'];
 }
 
 export class UsEast1Stack extends cdk.Stack {
@@ -32,12 +34,13 @@ export class UsEast1Stack extends cdk.Stack {
       this.certificate = cert;
     }
 
-    if (props.allowedIpV4AddressRanges || props.allowedIpV6AddressRanges || props.allowedCountryCodes) {
+    if (props.allowedIpV4AddressRanges || props.allowedIpV6AddressRanges || props.allowedCountryCodes || props.webAcl) {
       const webAcl = new CommonWebAcl(this, 'WebAcl', {
         scope: 'CLOUDFRONT',
         allowedIpV4AddressRanges: props.allowedIpV4AddressRanges,
         allowedIpV6AddressRanges: props.allowedIpV6AddressRanges,
         allowedCountryCodes: props.allowedCountryCodes,
+        ...props.webAcl,
       });
 
       this.webAclArn = webAcl.webAclArn;
@@ -1,20 +1,20 @@
 import { exec } from 'child_process';
 import { promisify } from 'util';
-import { props } from '../bin/cdk';
+import { props as defaultProps } from '../config/default';
+import { loadStageConfig, readCdkContext } from '../lib/config';
+import { getDifyImages, validateImageArchitecture } from '../lib/dify-images';
 
 const execAsync = promisify(exec);
 
-const difyImageTag = props.difyImageTag ?? 'latest';
-const difySandboxImageTag = props.difySandboxImageTag ?? 'latest';
-const difyPluginDaemonImageTag = props.difyPluginDaemonImageTag ?? 'main-local';
+// Pass `-c stage=<stage>` to copy images for a stage, as with the CDK CLI.
+const context = readCdkContext();
+const { props } = loadStageConfig((key) => context[key], defaultProps);
+validateImageArchitecture(props);
+
 const repositoryName = props.customEcrRepositoryName;
 
-const DOCKER_HUB_IMAGES = [
-  `langgenius/dify-web:${difyImageTag}`,
-  `langgenius/dify-api:${difyImageTag}`,
-  `langgenius/dify-sandbox:${difySandboxImageTag}`,
-  `langgenius/dify-plugin-daemon:${difyPluginDaemonImageTag}`,
-];
+// All the platforms in a multi-platform image are copied, including arm64 ones if available.
+const DOCKER_HUB_IMAGES = getDifyImages(props);
 
 interface AWSConfig {
   accountId: string;
@@ -61,7 +61,8 @@ async function ensureECRRepository(repositoryName: string, awsConfig: AWSConfig)
 async function processImage(dockerHubImage: string, repositoryName: string, awsConfig: AWSConfig): Promise<void> {
   try {
     const { accountId, region } = awsConfig;
-    const ecrImageTag = dockerHubImage.replace(':', '_').replace('langgenius/', '');
+    // e.g. langgenius/dify-api:1.0.0 -> dify-api_1.0.0
+    const ecrImageTag = dockerHubImage.replace(':', '_').replace(/^.*\//, '');
     const ecrImageUri = `${accountId}.dkr.ecr.${region}.amazonaws.com/${repositoryName}:${ecrImageTag}`;
 
     await execAsync(`docker buildx imagetools create --tag "${ecrImageUri}" "${dockerHubImage}"`);
@@ -26,7 +26,7 @@ REPLY="no"
 while [ "$REPLY" != "yes" ]
 do
   # prompt user to confirm if the configuration is ready
-  echo "Are you sure you want to deploy? Please check the configuration parameters in bin/cdk.ts."
+  echo "Are you sure you want to deploy? Please check the configuration parameters in config/default.ts."
   read -p "If you are ready, type 'yes': " -r
   echo 
 done
@@ -0,0 +1,103 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadStageConfig, readCdkContext } from '../lib/config';
+import { EnvironmentProps } from '../lib/environment-props';
+
+const defaultProps: EnvironmentProps = { awsRegion: 'us-west-2', awsAccount: '123456789012' };
+
+describe('loadStageConfig', () => {
+  let configDirectory: string;
+
+  beforeEach(() => {
+    configDirectory = mkdtempSync(join(tmpdir(), 'dify-config-'));
+  });
+
+  afterEach(() => {
+    rmSync(configDirectory, { recursive: true, force: true });
+  });
+
+  const load = (context: Record<string, unknown>) =>
+    loadStageConfig((key) => context[key], defaultProps, { configDirectory });
+
+  test('uses the default props without a stage', () => {
+    expect(load({})).toEqual({ props: defaultProps });
+  });
+
+  test('loads a stage from a YAML file', () => {
+    writeFileSync(join(configDirectory, 'dev.yaml'), 'awsRegion: ap-northeast-1\nawsAccount: "012345678901"\n');
+    expect(load({ stage: 'dev' })).toEqual({
+      stage: 'dev',
+      props: { awsRegion: 'ap-northeast-1', awsAccount: '012345678901' },
+    });
+  });
+
+  test('loads a stage from a JSON file', () => {
+    writeFileSync(
+      join(configDirectory, 'dev.json'),
+      JSON.stringify({ awsRegion: 'eu-west-1', awsAccount: '123456789012' }),
+    );
+    expect(load({ stage: 'dev' }).props).toEqual({ awsRegion: 'eu-west-1', awsAccount: '123456789012' });
+  });
+
+  test('loads a stage from stages context', () => {
+    const stages = { prod: { awsRegion: 'us-east-1', awsAccount: '123456789012' } };
+    expect(load({ stage: 'prod', stages })).toEqual({ stage: 'prod', props: stages.prod });
+  });
+
+  test('rejects a stage configured both in a file and in context', () => {
+    writeFileSync(join(configDirectory, 'prod.yaml'), 'awsRegion: us-east-1\n');
+    expect(() => load({ stage: 'prod', stages: { prod: { awsRegion: 'us-east-1' } } })).toThrow(
+      `Configuration for stage prod is found in multiple sources: ${join(configDirectory, 'prod.yaml')}, stages.prod context`,
+    );
+  });
+
+  test('rejects a stage configured both in YAML and JSON files', () => {
+    writeFileSync(join(configDirectory, 'prod.yaml'), 'awsRegion: us-east-1\n');
+    writeFileSync(join(configDirectory, 'prod.json'), '{"awsRegion": "us-east-1"}');
+    expect(() => load({ stage: 'prod' })).toThrow(
+      `Configuration for stage prod is found in multiple sources: ${join(configDirectory, 'prod.yaml')}, ${join(configDirectory, 'prod.json')}`,
+    );
+  });
+
+  test('rejects a missing stage', () => {
+    expect(() => load({ stage: 'staging', stages: { prod: {} } })).toThrow(
+      'No configuration found for stage staging. Create config/staging.yaml or set stages.staging context in cdk.json.',
+    );
+  });
+
+  test('rejects an invalid stage name', () => {
+    expect(() => load({ stage: '../prod' })).toThrow(
+      'stage must consist of alphanumeric characters and hyphens, but got "../prod".',
+    );
+    expect(() => load({ stage: 1 })).toThrow('stage must consist of alphanumeric characters and hyphens');
+  });
+
+  test('rejects a configuration that is not an object', () => {
+    writeFileSync(join(configDirectory, 'dev.yaml'), '- awsRegion: us-east-1\n');
+    expect(() => load({ stage: 'dev' })).toThrow('Configuration for stage dev must be an object.');
+  });
+
+  test('validates the loaded configuration', () => {
+    writeFileSync(
+      join(configDirectory, 'dev.yaml'),
+      'awsRegion: us-west-2\nawsAccount: "123456789012"\nuseCloudfront: false\n',
+    );
+    expect(() => load({ stage: 'dev' })).toThrow(
+      "useCloudfront: is not a known property.\n      Fix: Did you mean 'useCloudFront'?",
+    );
+  });
+});
+
+describe('readCdkContext', () => {
+  test('reads context values from command line arguments', () => {
+    expect(readCdkContext(['deploy', '-c', 'stage=dev', '--context', 'foo=a=b'])).toMatchObject({
+      stage: 'dev',
+      foo: 'a=b',
+    });
+  });
+
+  test('rejects a malformed context argument', () => {
+    expect(() => readCdkContext(['-c', 'stage'])).toThrow('Context must be in the form of key=value, but got "stage".');
+  });
+});
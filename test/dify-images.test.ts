@@ -0,0 +1,52 @@
+import { getDifyImages, parseImageArchitectures, validateImageArchitecture } from '../lib/dify-images';
+import { EnvironmentProps } from '../lib/environment-props';
+
+const singlePlatform = (architecture: string) => JSON.stringify({ architecture, os: 'linux', config: {} });
+const multiPlatform = (...architectures: string[]) =>
+  JSON.stringify(
+    Object.fromEntries(architectures.map((arch) => [`linux/${arch}`, { architecture: arch, os: 'linux' }])),
+  );
+
+describe('parseImageArchitectures', () => {
+  test('reads the architecture of a single-platform image', () => {
+    expect(parseImageArchitectures('image', singlePlatform('arm64'))).toEqual(['arm64']);
+    expect(parseImageArchitectures('image', singlePlatform('amd64'))).toEqual(['amd64']);
+  });
+
+  test('reads the architectures of a multi-platform image', () => {
+    expect(parseImageArchitectures('image', multiPlatform('amd64', 'arm64'))).toEqual(['amd64', 'arm64']);
+  });
+
+  test('rejects an output that is not an image config', () => {
+    expect(() => parseImageArchitectures('image', 'not json')).toThrow('Failed to parse the image config of image');
+    expect(() => parseImageArchitectures('image', 'null')).toThrow(
+      'Failed to parse the image config of image: expected an object, but got null.',
+    );
+  });
+});
+
+describe('validateImageArchitecture', () => {
+  const props: EnvironmentProps = { awsRegion: 'us-west-2', awsAccount: '123456789012', cpuArchitecture: 'ARM64' };
+
+  test('does not inspect images for X86_64', () => {
+    const inspect = jest.fn();
+    validateImageArchitecture({ ...props, cpuArchitecture: 'X86_64' }, inspect);
+    expect(inspect).not.toHaveBeenCalled();
+  });
+
+  test('accepts images with arm64 manifests', () => {
+    const inspect = jest.fn((image: string) =>
+      image.startsWith('langgenius/dify-web') ? singlePlatform('arm64') : multiPlatform('amd64', 'arm64'),
+    );
+    expect(() => validateImageArchitecture(props, inspect)).not.toThrow();
+    expect(inspect.mock.calls.map(([image]) => image)).toEqual(getDifyImages(props));
+  });
+
+  test('rejects images without arm64 manifests', () => {
+    const inspect = (image: string) =>
+      image.startsWith('langgenius/dify-sandbox') ? singlePlatform('amd64') : multiPlatform('amd64', 'arm64');
+    expect(() => validateImageArchitecture(props, inspect)).toThrow(
+      'The following images do not have arm64 manifest: langgenius/dify-sandbox:latest. Please use other image tags or set cpuArchitecture to X86_64.',
+    );
+  });
+});
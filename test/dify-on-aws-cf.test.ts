@@ -1,7 +1,6 @@
 import * as cdk from 'aws-cdk-lib';
 import { Template } from 'aws-cdk-lib/assertions';
-import { DifyOnAwsStack } from '../lib/dify-on-aws-stack';
-import { UsEast1Stack } from '../lib/us-east-1-stack';
+import { createDifyStacks } from '../lib/create-stacks';
 import { EnvironmentProps } from '../lib/environment-props';
 
 test('Snapshot test (with CloudFront)', () => {
@@ -17,30 +16,70 @@ test('Snapshot test (with CloudFront)', () => {
     domainName: 'example.com',
     allowAnySyscalls: true,
     setupEmail: true,
+    separateApiServices: true,
+    existingAuroraCluster: {
+      clusterIdentifier: 'shared-cluster',
+      endpoint: 'shared-cluster.cluster-abcdefghijkl.us-west-2.rds.amazonaws.com',
+      secretArn: 'arn:aws:secretsmanager:us-west-2:123456789012:secret:dify-credentials-AbCdEf',
+      securityGroupIds: ['sg-12345678'],
+    },
+    vectorStore: { type: 'opensearch-serverless', standbyReplicas: false },
+    taskSizes: {
+      worker: { cpu: 2048, memoryLimitMiB: 8192, ephemeralStorageGiB: 50 },
+      web: { cpu: 512, memoryLimitMiB: 1024 },
+    },
+    autoScaling: {
+      worker: {
+        maxCapacity: 3,
+        targetCpuUtilizationPercent: 70,
+      },
+    },
+    openTelemetry: { samplingRate: 0.5 },
+    cloudFrontOriginReadTimeoutSeconds: 60,
+    cloudFrontOriginKeepaliveTimeoutSeconds: 30,
+    albIdleTimeoutSeconds: 120,
+    webAcl: {
+      managedRuleGroups: ['AWSManagedRulesCommonRuleSet', 'AWSManagedRulesKnownBadInputsRuleSet'],
+      rateLimits: [{ pathPrefix: '/console/api/login', limit: 100 }],
+    },
+    monitoring: {
+      alarmEmails: ['ops@example.com'],
+      alarmHttpsEndpoints: ['https://hooks.example.com/dify'],
+    },
   };
 
   // WHEN
-  let virginia: UsEast1Stack | undefined = undefined;
-  if ((props.useCloudFront ?? true) && (props.domainName || props.allowedIPv4Cidrs || props.allowedIPv6Cidrs)) {
-    virginia = new UsEast1Stack(app, 'TestUsEast1Stack', {
-      env: { region: 'us-east-1', account: props.awsAccount },
-      crossRegionReferences: true,
-      domainName: props.domainName,
-      allowedIpV4AddressRanges: props.allowedIPv4Cidrs,
-      allowedIpV6AddressRanges: props.allowedIPv6Cidrs,
-    });
-  }
-
-  const main = new DifyOnAwsStack(app, 'TestStack', {
-    env: { region: props.awsRegion, account: props.awsAccount },
-    crossRegionReferences: true,
-    ...props,
-    cloudFrontCertificate: virginia?.certificate,
-    cloudFrontWebAclArn: virginia?.webAclArn,
+  const { virginia, main, virginiaMonitoring } = createDifyStacks(app, props, {
+    main: 'TestStack',
+    usEast1: 'TestUsEast1Stack',
+    usEast1Monitoring: 'TestUsEast1MonitoringStack',
   });
 
   //THEN
   expect(virginia).toBeDefined();
   expect(Template.fromStack(virginia!)).toMatchSnapshot();
   expect(Template.fromStack(main)).toMatchSnapshot();
+  expect(virginiaMonitoring).toBeDefined();
+  expect(Template.fromStack(virginiaMonitoring!)).toMatchSnapshot();
+});
+
+test('Out-of-range origin timeouts fail to synthesize', () => {
+  const ids = { main: 'TestStack', usEast1: 'TestUsEast1Stack', usEast1Monitoring: 'TestUsEast1MonitoringStack' };
+  const props: EnvironmentProps = { awsRegion: 'us-west-2', awsAccount: '123456789012' };
+
+  expect(() => createDifyStacks(new cdk.App(), { ...props, cloudFrontOriginReadTimeoutSeconds: 181 }, ids)).toThrow(
+    'cloudFrontOriginReadTimeoutSeconds: must be between 1 and 180 but got 181.',
+  );
+  expect(() => createDifyStacks(new cdk.App(), { ...props, albIdleTimeoutSeconds: 4001 }, ids)).toThrow(
+    'albIdleTimeoutSeconds: must be between 1 and 4000 but got 4001.',
+  );
+  expect(() =>
+    createDifyStacks(
+      new cdk.App(),
+      { ...props, cloudFrontOriginKeepaliveTimeoutSeconds: 60, albIdleTimeoutSeconds: 60 },
+      ids,
+    ),
+  ).toThrow(
+    'albIdleTimeoutSeconds: must be longer than cloudFrontOriginKeepaliveTimeoutSeconds (60) but got 60.\n      Fix: Use 61 or more.',
+  );
 });
@@ -1,7 +1,6 @@
 import * as cdk from 'aws-cdk-lib';
 import { Template } from 'aws-cdk-lib/assertions';
-import { DifyOnAwsStack } from '../lib/dify-on-aws-stack';
-import { UsEast1Stack } from '../lib/us-east-1-stack';
+import { createDifyStacks } from '../lib/create-stacks';
 import { EnvironmentProps } from '../lib/environment-props';
 
 test('Snapshot test', () => {
@@ -19,26 +18,16 @@ test('Snapshot test', () => {
     internalAlb: true,
     vpcIsolated: true,
     customEcrRepositoryName: 'custom',
+    cpuArchitecture: 'ARM64',
+    dataRetention: 'snapshot',
+    useRedisServerless: true,
   };
 
   // WHEN
-  let virginia: UsEast1Stack | undefined = undefined;
-  if ((props.useCloudFront ?? true) && (props.domainName || props.allowedIPv4Cidrs || props.allowedIPv6Cidrs)) {
-    virginia = new UsEast1Stack(app, 'TestUsEast1Stack', {
-      env: { region: 'us-east-1', account: props.awsAccount },
-      crossRegionReferences: true,
-      domainName: props.domainName,
-      allowedIpV4AddressRanges: props.allowedIPv4Cidrs,
-      allowedIpV6AddressRanges: props.allowedIPv6Cidrs,
-    });
-  }
-
-  const main = new DifyOnAwsStack(app, 'TestStack', {
-    env: { region: props.awsRegion, account: props.awsAccount },
-    crossRegionReferences: true,
-    ...props,
-    cloudFrontCertificate: virginia?.certificate,
-    cloudFrontWebAclArn: virginia?.webAclArn,
+  const { virginia, main } = createDifyStacks(app, props, {
+    main: 'TestStack',
+    usEast1: 'TestUsEast1Stack',
+    usEast1Monitoring: 'TestUsEast1MonitoringStack',
   });
 
   //THEN
@@ -1,7 +1,6 @@
 import * as cdk from 'aws-cdk-lib';
-import { Template } from 'aws-cdk-lib/assertions';
-import { DifyOnAwsStack } from '../lib/dify-on-aws-stack';
-import { UsEast1Stack } from '../lib/us-east-1-stack';
+import { Annotations, Match, Template } from 'aws-cdk-lib/assertions';
+import { createDifyStacks } from '../lib/create-stacks';
 import { EnvironmentProps } from '../lib/environment-props';
 
 test('Snapshot test', () => {
@@ -13,11 +12,58 @@ test('Snapshot test', () => {
     awsAccount: '123456789012',
     allowedIPv4Cidrs: ['0.0.0.0/0'],
     allowedIPv6Cidrs: ['::/0'],
+    allowedCountryCodes: ['JP', 'US'],
     difySandboxImageTag: '0.2.4',
     domainName: 'example.com',
+    hostnames: { console: 'console', apps: 'apps', serviceApi: 'api' },
+    albAuthentication: {
+      oidc: {
+        issuer: 'https://idp.example.com',
+        authorizationEndpoint: 'https://idp.example.com/authorize',
+        tokenEndpoint: 'https://idp.example.com/token',
+        userInfoEndpoint: 'https://idp.example.com/userinfo',
+        clientId: 'dify',
+        clientSecretName: 'dify-oidc-client-secret',
+      },
+    },
+    webAcl: {
+      managedRuleGroups: ['AWSManagedRulesAmazonIpReputationList'],
+      rateLimits: [{ pathPrefix: '/console/api/login', limit: 100, evaluationWindowSec: 60 }],
+      countOnly: true,
+    },
     allowAnySyscalls: true,
+    monitoring: { alarmEmails: ['ops@example.com'] },
     useCloudFront: false,
+    albIdleTimeoutSeconds: 300,
     enableAuroraScalesToZero: true,
+    auroraMaxCapacity: 4,
+    auroraReaderCount: 1,
+    auroraEngineVersion: '16.6',
+    redisNodeType: 'cache.t4g.small',
+    redisAuthTokenRotationDays: 30,
+    internalKeyRotationDays: 30,
+    externalKnowledgeApi: {
+      knowledgeBaseIds: ['ABCDEFGHIJ', 'us-east-1:KLMNOPQRST'],
+      createKnowledgeBase: true,
+    },
+    logging: {
+      retentionDays: 400,
+      kmsKeyArn: 'arn:aws:kms:us-west-2:123456789012:key/11111111-2222-3333-4444-555555555555',
+      archive: { bucketArn: 'arn:aws:s3:::central-log-archive' },
+      levels: { api: 'DEBUG', worker: 'INFO', pluginDaemon: 'DEBUG' },
+    },
+    autoScaling: {
+      api: {
+        maxCapacity: 4,
+        targetCpuUtilizationPercent: 60,
+        targetRequestCountPerTarget: 200,
+      },
+      web: {
+        minCapacity: 2,
+        maxCapacity: 4,
+        targetMemoryUtilizationPercent: 70,
+      },
+    },
     additionalEnvironmentVariables: [
       {
         key: 'ALL',
@@ -40,26 +86,170 @@ test('Snapshot test', () => {
   };
 
   // WHEN
-  let virginia: UsEast1Stack | undefined = undefined;
-  if ((props.useCloudFront ?? true) && (props.domainName || props.allowedIPv4Cidrs || props.allowedIPv6Cidrs)) {
-    virginia = new UsEast1Stack(app, 'TestUsEast1Stack', {
-      env: { region: 'us-east-1', account: props.awsAccount },
-      crossRegionReferences: true,
-      domainName: props.domainName,
-      allowedIpV4AddressRanges: props.allowedIPv4Cidrs,
-      allowedIpV6AddressRanges: props.allowedIPv6Cidrs,
+  const { virginia, main } = createDifyStacks(app, props, {
+    main: 'TestStack',
+    usEast1: 'TestUsEast1Stack',
+    usEast1Monitoring: 'TestUsEast1MonitoringStack',
+  });
+
+  //THEN
+  expect(virginia).toBeUndefined();
+  expect(Template.fromStack(main)).toMatchSnapshot();
+});
+
+test('Auto scaled services drain in-flight requests on scale-in', () => {
+  // GIVEN
+  const app = new cdk.App();
+
+  const props: EnvironmentProps = {
+    awsRegion: 'us-west-2',
+    awsAccount: '123456789012',
+    autoScaling: {
+      api: { maxCapacity: 4 },
+      web: { maxCapacity: 4 },
+    },
+  };
+
+  // WHEN
+  const { main } = createDifyStacks(app, props, {
+    main: 'TestStack',
+    usEast1: 'TestUsEast1Stack',
+    usEast1Monitoring: 'TestUsEast1MonitoringStack',
+  });
+
+  //THEN
+  const template = Template.fromStack(main);
+  const targetGroups = template.findResources('AWS::ElasticLoadBalancingV2::TargetGroup');
+  expect(Object.keys(targetGroups)).toHaveLength(2);
+  template.allResourcesProperties('AWS::ElasticLoadBalancingV2::TargetGroup', {
+    TargetGroupAttributes: Match.arrayWith([{ Key: 'deregistration_delay.timeout_seconds', Value: '120' }]),
+  });
+  for (const names of [['Main', 'Worker', 'Sandbox', 'PluginDaemon'], ['Main']]) {
+    template.hasResourceProperties('AWS::ECS::TaskDefinition', {
+      ContainerDefinitions: Match.arrayWith(names.map((name) => Match.objectLike({ Name: name, StopTimeout: 120 }))),
     });
   }
 
-  const main = new DifyOnAwsStack(app, 'TestStack', {
-    env: { region: props.awsRegion, account: props.awsAccount },
-    crossRegionReferences: true,
-    ...props,
-    cloudFrontCertificate: virginia?.certificate,
-    cloudFrontWebAclArn: virginia?.webAclArn,
+  // the worker service is auto scaled on its own with separate services.
+  const separate = createDifyStacks(
+    new cdk.App(),
+    { ...props, separateApiServices: true, autoScaling: { worker: { maxCapacity: 4 } } },
+    { main: 'TestStack', usEast1: 'TestUsEast1Stack', usEast1Monitoring: 'TestUsEast1MonitoringStack' },
+  );
+  Template.fromStack(separate.main).hasResourceProperties('AWS::ECS::TaskDefinition', {
+    ContainerDefinitions: [Match.objectLike({ Name: 'Worker', StopTimeout: 120 })],
   });
+});
+
+test('External knowledge API is deployed unless disabled', () => {
+  // GIVEN
+  const props: EnvironmentProps = {
+    awsRegion: 'us-west-2',
+    awsAccount: '123456789012',
+  };
+  const ids = { main: 'TestStack', usEast1: 'TestUsEast1Stack', usEast1Monitoring: 'TestUsEast1MonitoringStack' };
+
+  // WHEN
+  const { main } = createDifyStacks(new cdk.App(), props, ids);
+  const disabled = createDifyStacks(new cdk.App(), { ...props, externalKnowledgeApi: false }, ids);
 
   //THEN
-  expect(virginia).toBeUndefined();
-  expect(Template.fromStack(main)).toMatchSnapshot();
+  const template = Template.fromStack(main);
+  template.hasResourceProperties('AWS::ECS::TaskDefinition', {
+    ContainerDefinitions: Match.arrayWith([
+      Match.objectLike({
+        Name: 'ExternalKnowledgeBaseAPI',
+        Environment: [{ Name: 'BEDROCK_REGION', Value: 'us-west-2' }],
+      }),
+    ]),
+  });
+  template.hasResourceProperties('AWS::IAM::Policy', {
+    PolicyDocument: {
+      Statement: Match.arrayWith([
+        Match.objectLike({
+          Action: ['bedrock:Retrieve', 'bedrock:RetrieveAndGenerate'],
+          Resource: {
+            'Fn::Join': ['', ['arn:', { Ref: 'AWS::Partition' }, ':bedrock:*:123456789012:knowledge-base/*']],
+          },
+        }),
+      ]),
+    },
+  });
+
+  const disabledTemplate = Template.fromStack(disabled.main);
+  disabledTemplate.resourcePropertiesCountIs(
+    'AWS::ECS::TaskDefinition',
+    { ContainerDefinitions: Match.arrayWith([Match.objectLike({ Name: 'ExternalKnowledgeBaseAPI' })]) },
+    0,
+  );
+  expect(disabledTemplate.findOutputs('GetExternalKnowledgeApiKeyCommand')).toEqual({});
+});
+
+test('Unsupported Fargate task sizes fail to synthesize', () => {
+  const ids = { main: 'TestStack', usEast1: 'TestUsEast1Stack', usEast1Monitoring: 'TestUsEast1MonitoringStack' };
+  const props: EnvironmentProps = { awsRegion: 'us-west-2', awsAccount: '123456789012' };
+
+  expect(() =>
+    createDifyStacks(new cdk.App(), { ...props, taskSizes: { api: { cpu: 1024, memoryLimitMiB: 1024 } } }, ids),
+  ).toThrow('taskSizes.api.memoryLimitMiB: 1024 is not supported with cpu 1024.\n      Fix: Use 2048.');
+  expect(() =>
+    createDifyStacks(new cdk.App(), { ...props, taskSizes: { web: { cpu: 3000, memoryLimitMiB: 4096 } } }, ids),
+  ).toThrow('taskSizes.web.cpu: 3000 is not supported by Fargate.');
+});
+
+test('Aurora scale-to-zero fails to synthesize on an unsupported engine version', () => {
+  const ids = { main: 'TestStack', usEast1: 'TestUsEast1Stack', usEast1Monitoring: 'TestUsEast1MonitoringStack' };
+  const props: EnvironmentProps = {
+    awsRegion: 'us-west-2',
+    awsAccount: '123456789012',
+    enableAuroraScalesToZero: true,
+  };
+
+  expect(() => createDifyStacks(new cdk.App(), { ...props, auroraEngineVersion: '15.4' }, ids)).toThrow(
+    'auroraEngineVersion: 15.4 does not support scaling to zero.\n      Fix: Use 13.15, 14.12, 15.7, 16.3 or later in each major version.',
+  );
+  expect(() => createDifyStacks(new cdk.App(), { ...props, auroraEngineVersion: '15.7' }, ids)).not.toThrow();
+});
+
+test('Aurora connections alarm follows the maximum ACU', () => {
+  // GIVEN
+  const ids = { main: 'TestStack', usEast1: 'TestUsEast1Stack', usEast1Monitoring: 'TestUsEast1MonitoringStack' };
+  const props: EnvironmentProps = {
+    awsRegion: 'us-west-2',
+    awsAccount: '123456789012',
+    monitoring: { alarmEmails: ['ops@example.com'] },
+  };
+
+  // WHEN
+  const { main } = createDifyStacks(new cdk.App(), props, ids);
+  const existing = createDifyStacks(
+    new cdk.App(),
+    {
+      ...props,
+      existingAuroraCluster: {
+        clusterIdentifier: 'shared-cluster',
+        endpoint: 'shared-cluster.cluster-abcdefghijkl.us-west-2.rds.amazonaws.com',
+        secretArn: 'arn:aws:secretsmanager:us-west-2:123456789012:secret:dify-credentials-AbCdEf',
+        securityGroupIds: ['sg-12345678'],
+      },
+    },
+    ids,
+  );
+
+  //THEN
+  // 2 ACU has 4 GiB of memory, which allows 450 connections by default.
+  Template.fromStack(main).hasResourceProperties('AWS::CloudWatch::Alarm', {
+    MetricName: 'DatabaseConnections',
+    Threshold: 360,
+    AlarmDescription: 'The number of Aurora database connections is 80% or more of the limit (450).',
+  });
+  Template.fromStack(existing.main).resourcePropertiesCountIs(
+    'AWS::CloudWatch::Alarm',
+    { MetricName: 'DatabaseConnections' },
+    0,
+  );
+  Annotations.fromStack(existing.main).hasWarning(
+    '/TestStack/Monitoring',
+    Match.stringLikeRegexp('maximum ACU of the existing Aurora cluster is unknown'),
+  );
 });
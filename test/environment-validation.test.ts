@@ -0,0 +1,263 @@
+import { assertValidEnvironmentProps, validateEnvironmentProps } from '../lib/environment-validation';
+import { EnvironmentProps } from '../lib/environment-props';
+
+// configuration files are not type-checked, so tests feed values of any shape.
+const validate = (props: object, strict = true) => validateEnvironmentProps(props as EnvironmentProps, { strict });
+
+describe('validateEnvironmentProps', () => {
+  test('accepts a minimal configuration', () => {
+    expect(validate({ awsRegion: 'us-west-2' })).toEqual([]);
+  });
+
+  test('reports unknown properties with a similar known property', () => {
+    expect(validate({ awsRegion: 'us-west-2', useCloudfront: false, foo: 1 })).toEqual([
+      { path: 'useCloudfront', message: 'is not a known property.', suggestion: "Did you mean 'useCloudFront'?" },
+      { path: 'foo', message: 'is not a known property.', suggestion: undefined },
+    ]);
+  });
+
+  test('requires awsRegion and checks unknown properties only in strict mode', () => {
+    expect(validate({ foo: 1 }, false)).toEqual([]);
+    expect(validate({}, true)).toEqual([
+      { path: 'awsRegion', message: 'is required.', suggestion: "Set a region code, e.g. 'us-west-2'." },
+    ]);
+  });
+
+  test('suggests fixes for the region and account', () => {
+    expect(validate({ awsRegion: 'US-West-2a', awsAccount: 12345678901 })).toEqual([
+      { path: 'awsRegion', message: "'US-West-2a' is not a valid AWS region name.", suggestion: "Use 'us-west-2'." },
+      {
+        path: 'awsAccount',
+        message: "'12345678901' is not a valid AWS account ID.",
+        suggestion: 'Quote the account ID in YAML, as leading zeros of a number are dropped.',
+      },
+    ]);
+  });
+
+  test('checks types', () => {
+    expect(validate({ awsRegion: 'us-west-2', useCloudFront: 'false', difyImageTag: 1.1 })).toEqual([
+      { path: 'useCloudFront', message: 'must be a boolean but got string.', suggestion: undefined },
+      {
+        path: 'difyImageTag',
+        message: 'must be a string but got number.',
+        suggestion: "Quote the value in YAML, e.g. '1.1'.",
+      },
+    ]);
+  });
+
+  test('checks CIDR blocks', () => {
+    expect(
+      validate({
+        awsRegion: 'us-west-2',
+        allowedIPv4Cidrs: ['203.0.113.0/24', '203.0.113.1', '2001:db8::/32', '203.0.113.0/33'],
+        allowedIPv6Cidrs: ['2001:db8::1'],
+      }),
+    ).toEqual([
+      {
+        path: 'allowedIPv4Cidrs[1]',
+        message: "'203.0.113.1' is not in CIDR notation.",
+        suggestion: "Use '203.0.113.1/32' for a single address.",
+      },
+      {
+        path: 'allowedIPv4Cidrs[2]',
+        message: "'2001:db8::/32' is not a valid IPv4 CIDR block.",
+        suggestion: 'Move it to allowedIPv6Cidrs.',
+      },
+      {
+        path: 'allowedIPv4Cidrs[3]',
+        message: "'203.0.113.0/33' is not a valid IPv4 CIDR block.",
+        suggestion: "Use the form of '203.0.113.0/24'.",
+      },
+      {
+        path: 'allowedIPv6Cidrs[0]',
+        message: "'2001:db8::1' is not in CIDR notation.",
+        suggestion: "Use '2001:db8::1/128' for a single address.",
+      },
+    ]);
+  });
+
+  test('checks image tags', () => {
+    expect(validate({ awsRegion: 'us-west-2', difyImageTag: 'langgenius/dify-api:1.1.3' })).toEqual([
+      {
+        path: 'difyImageTag',
+        message: "'langgenius/dify-api:1.1.3' is not a valid image tag.",
+        suggestion: "Set only the tag, e.g. '1.1.3'.",
+      },
+    ]);
+  });
+
+  test('checks task sizes against Fargate', () => {
+    expect(
+      validate({
+        awsRegion: 'us-west-2',
+        separateApiServices: true,
+        taskSizes: {
+          api: { cpu: 1024, memoryLimitMiB: 1024 },
+          worker: { cpu: 3000, memoryLimitMiB: 4096 },
+          web: { cpu: 256, memoryLimitMiB: 512, ephemeralStorageGiB: 10 },
+          sandbox: { cpu: 512 },
+        },
+      }),
+    ).toEqual([
+      {
+        path: 'taskSizes.web.ephemeralStorageGiB',
+        message: 'must be between 21 and 200 but got 10.',
+        suggestion: 'Use 21.',
+      },
+      {
+        path: 'taskSizes.api.memoryLimitMiB',
+        message: '1024 is not supported with cpu 1024.',
+        suggestion: 'Use 2048. Supported values are 2048, 3072, 4096, 5120, 6144, 7168, 8192.',
+      },
+      {
+        path: 'taskSizes.worker.cpu',
+        message: '3000 is not supported by Fargate.',
+        suggestion: 'Use one of 256, 512, 1024, 2048, 4096, 8192, 16384.',
+      },
+      { path: 'taskSizes.sandbox.memoryLimitMiB', message: 'is required.', suggestion: undefined },
+    ]);
+  });
+
+  test('rejects per-container sizes in the shared api task', () => {
+    expect(validate({ awsRegion: 'us-west-2', taskSizes: { worker: { cpu: 1024, memoryLimitMiB: 2048 } } })).toEqual([
+      {
+        path: 'taskSizes.worker',
+        message:
+          'cannot be set unless separateApiServices is true. ' +
+          'api, worker, sandbox and plugin-daemon share a single task, and per-container sizes are not supported.',
+        suggestion: 'Set separateApiServices: true to size each component, or size the shared task with taskSizes.api.',
+      },
+    ]);
+  });
+
+  test('checks auto scaling', () => {
+    expect(
+      validate({
+        awsRegion: 'us-west-2',
+        separateApiServices: true,
+        autoScaling: {
+          api: { minCapacity: 3, maxCapacity: 2 },
+          web: { targetCpuUtilizationPercent: 120 },
+          worker: { maxCapacity: 2, targetRequestCountPerTarget: 100 },
+        },
+      }),
+    ).toEqual([
+      {
+        path: 'autoScaling.api.maxCapacity',
+        message: 'must be larger than or equal to minCapacity (3).',
+        suggestion: undefined,
+      },
+      { path: 'autoScaling.web.maxCapacity', message: 'is required.', suggestion: 'Set maxCapacity to 1 or larger.' },
+      {
+        path: 'autoScaling.web.targetCpuUtilizationPercent',
+        message: 'must be between 1 and 100 but got 120.',
+        suggestion: 'Use 100.',
+      },
+      {
+        path: 'autoScaling.worker.targetRequestCountPerTarget',
+        message: 'cannot be set because worker is not behind the ALB.',
+        suggestion: 'Use targetCpuUtilizationPercent or targetMemoryUtilizationPercent instead.',
+      },
+    ]);
+  });
+
+  test('checks CloudFront and ALB timeouts', () => {
+    expect(
+      validate({
+        awsRegion: 'us-west-2',
+        cloudFrontOriginReadTimeoutSeconds: 200,
+        cloudFrontOriginKeepaliveTimeoutSeconds: 90,
+        albIdleTimeoutSeconds: 60,
+      }),
+    ).toEqual([
+      {
+        path: 'cloudFrontOriginReadTimeoutSeconds',
+        message: 'must be between 1 and 180 but got 200.',
+        suggestion: 'Use 180.',
+      },
+      {
+        path: 'albIdleTimeoutSeconds',
+        message: 'must be longer than cloudFrontOriginKeepaliveTimeoutSeconds (90) but got 60.',
+        suggestion: 'Use 91 or more.',
+      },
+    ]);
+    expect(validate({ awsRegion: 'us-west-2', useCloudFront: false, albIdleTimeoutSeconds: 4001 })).toEqual([
+      { path: 'albIdleTimeoutSeconds', message: 'must be between 1 and 4000 but got 4001.', suggestion: 'Use 4000.' },
+    ]);
+    expect(
+      validate({
+        awsRegion: 'us-west-2',
+        useCloudFront: false,
+        domainName: 'example.com',
+        cloudFrontOriginReadTimeoutSeconds: 60,
+      }),
+    ).toEqual([
+      {
+        path: 'cloudFrontOriginReadTimeoutSeconds',
+        message: 'cannot be set when useCloudFront is false.',
+        suggestion: 'Use albIdleTimeoutSeconds to change the timeout of the ALB.',
+      },
+    ]);
+  });
+
+  test('checks Aurora and Redis settings', () => {
+    expect(
+      validate({
+        awsRegion: 'us-west-2',
+        enableAuroraScalesToZero: true,
+        auroraEngineVersion: '15.4',
+        auroraMaxCapacity: 2.3,
+        redisNumShards: 2,
+        redisReplicasPerShard: 0,
+      }),
+    ).toEqual([
+      { path: 'auroraMaxCapacity', message: 'must be in 0.5 ACU increments but got 2.3.', suggestion: 'Use 2.5.' },
+      {
+        path: 'auroraEngineVersion',
+        message: '15.4 does not support scaling to zero.',
+        suggestion: 'Use 13.15, 14.12, 15.7, 16.3 or later in each major version.',
+      },
+      {
+        path: 'redisReplicasPerShard',
+        message: 'must be 1 or larger when isRedisMultiAz is true.',
+        suggestion: 'Set redisReplicasPerShard to 1 or larger, or set isRedisMultiAz: false.',
+      },
+      {
+        path: 'redisNumShards',
+        message:
+          'must be 1, because Dify connects to Redis without cluster mode and the Celery broker does not support it.',
+        suggestion:
+          'Remove redisNumShards, and scale up with redisNodeType or add replicas with redisReplicasPerShard.',
+      },
+    ]);
+  });
+
+  test('rejects internal key rotation with separate api services', () => {
+    expect(validate({ awsRegion: 'us-west-2', separateApiServices: true, internalKeyRotationDays: 30 })).toEqual([
+      {
+        path: 'internalKeyRotationDays',
+        message: 'cannot be set when separateApiServices is true.',
+        suggestion:
+          'Requests between the separate services fail while they are redeployed with a new key. Remove internalKeyRotationDays or separateApiServices.',
+      },
+    ]);
+  });
+});
+
+describe('assertValidEnvironmentProps', () => {
+  test('throws an error listing every problem', () => {
+    expect(() => assertValidEnvironmentProps({ awsRegion: 'us-west-2', redisNumShards: 0, subDomain: 'dify' })).toThrow(
+      [
+        'Found 2 problems in the Dify configuration:',
+        '  - subDomain: cannot be set without domainName.',
+        '      Fix: Set domainName or remove subDomain.',
+        '  - redisNumShards: must be between 1 and 500 but got 0.',
+        '      Fix: Use 1.',
+      ].join('\n'),
+    );
+  });
+
+  test('does not throw for a valid configuration', () => {
+    expect(() => assertValidEnvironmentProps({ awsRegion: 'us-west-2' })).not.toThrow();
+  });
+});